@@ -5,7 +5,7 @@
 
 import { ResizeMode, Video } from 'expo-av';
 import * as FileSystem from 'expo-file-system/legacy';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     ActivityIndicator,
     Dimensions,
@@ -17,8 +17,8 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
-import type { DownloadStatus, DownloadTask } from '../lib/download-manager';
-import { formatFileSize, useDownloadManager } from '../lib/download-manager';
+import type { DownloadStatus, DownloadTask, EvictionInfo } from '../lib/download-manager';
+import { DownloadManager, formatETA, formatFileSize, useDownloadManager } from '../lib/download-manager';
 import { DOWNLOAD_DIRECTORY } from '../lib/download-manager/constants';
 
 // Preset video URLs for quick testing
@@ -54,10 +54,26 @@ export function VideoDownloader() {
         pauseDownload,
         resumeDownload,
         cancelDownload,
+        markAccessed,
+        queue,
+        moveToFront,
     } = useDownloadManager();
 
     const downloads = getAllDownloads();
 
+    // Explain files removed to stay within the storage quota
+    useEffect(() => {
+        const manager = DownloadManager.getInstance();
+        const handleEvicted = (task: DownloadTask, info: EvictionInfo) => {
+            alert(`${task.fileName} was removed to free ${formatFileSize(info.freedBytes)} for a new download`);
+        };
+
+        manager.on('evicted', handleEvicted);
+        return () => {
+            manager.off('evicted', handleEvicted);
+        };
+    }, []);
+
     const handleStartDownload = async () => {
         if (!url.trim()) return;
 
@@ -89,11 +105,16 @@ export function VideoDownloader() {
     const renderDownloadItem = ({ item }: { item: DownloadTask }) => {
         return <DownloadItem
             task={item}
+            queuePosition={queue.indexOf(item.id)}
             onPause={() => pauseDownload(item.id)}
             onResume={() => resumeDownload(item.id)}
             onCancel={() => cancelDownload(item.id)}
+            onMoveToFront={() => moveToFront(item.id)}
             onDelete={() => handleDeleteFile(item)}
-            onPlay={(uri) => setPlayingVideoUri(uri)}
+            onPlay={(uri) => {
+                markAccessed(item.id);
+                setPlayingVideoUri(uri);
+            }}
         />;
     };
 
@@ -227,14 +248,16 @@ export function VideoDownloader() {
 
 interface DownloadItemProps {
     task: DownloadTask;
+    queuePosition: number;
     onPause: () => void;
     onResume: () => void;
     onCancel: () => void;
+    onMoveToFront: () => void;
     onDelete: () => void;
     onPlay: (uri: string) => void;
 }
 
-function DownloadItem({ task, onPause, onResume, onCancel, onDelete, onPlay }: DownloadItemProps) {
+function DownloadItem({ task, queuePosition, onPause, onResume, onCancel, onMoveToFront, onDelete, onPlay }: DownloadItemProps) {
     const handleShowFile = async () => {
         // Show alert with file path
         alert(`File location:\n${task.filePath}\n\nFile saved successfully!`);
@@ -251,8 +274,12 @@ function DownloadItem({ task, onPause, onResume, onCancel, onDelete, onPlay }: D
     const getStatusColor = (status: DownloadStatus): string => {
         switch (status) {
             case 'downloading': return '#4CAF50';
+            case 'retry-pending': return '#FFC107';
+            case 'verifying': return '#00BCD4';
             case 'completed': return '#2196F3';
             case 'paused': return '#FF9800';
+            case 'waiting-for-network': return '#795548';
+            case 'scheduled': return '#673AB7';
             case 'failed': return '#F44336';
             case 'cancelled': return '#9E9E9E';
             default: return '#757575';
@@ -262,17 +289,24 @@ function DownloadItem({ task, onPause, onResume, onCancel, onDelete, onPlay }: D
     const getStatusText = (status: DownloadStatus): string => {
         switch (status) {
             case 'downloading': return 'Downloading';
+            case 'retry-pending': return `Retrying (${task.retryCount})`;
+            case 'verifying': return 'Verifying';
             case 'completed': return 'Completed';
-            case 'paused': return 'Paused';
+            case 'paused': return task.error?.code === 'INSUFFICIENT_STORAGE' ? 'Waiting for space' : 'Paused';
+            case 'waiting-for-network': return 'Waiting for network';
+            case 'scheduled': return task.scheduledFor
+                ? `Scheduled ${new Date(task.scheduledFor).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                : 'Scheduled';
             case 'failed': return 'Failed';
             case 'cancelled': return 'Cancelled';
-            case 'pending': return 'Pending';
+            case 'pending': return queuePosition >= 0 ? `Queued #${queuePosition + 1}` : 'Pending';
             default: return status;
         }
     };
 
-    const canPause = task.status === 'downloading';
-    const canResume = task.status === 'paused' || task.status === 'failed';
+    const canPause = task.status === 'downloading' || task.status === 'retry-pending' ||
+        task.status === 'waiting-for-network' || task.status === 'scheduled' || task.status === 'pending';
+    const canResume = task.status === 'paused' || task.status === 'failed' || task.status === 'retry-pending';
     const canCancel = task.status !== 'completed' && task.status !== 'cancelled';
 
     return (
@@ -295,7 +329,7 @@ function DownloadItem({ task, onPause, onResume, onCancel, onDelete, onPlay }: D
             </View>
 
             {/* Progress Bar */}
-            {task.status === 'downloading' || task.status === 'paused' ? (
+            {task.status === 'downloading' || task.status === 'paused' || task.status === 'waiting-for-network' ? (
                 <View style={styles.progressContainer}>
                     <View style={styles.progressBar}>
                         <View style={[styles.progressFill, { width: `${task.progress}%` }]} />
@@ -304,11 +338,24 @@ function DownloadItem({ task, onPause, onResume, onCancel, onDelete, onPlay }: D
                 </View>
             ) : null}
 
+            {/* Speed and ETA */}
+            {task.status === 'downloading' && task.bytesPerSecond ? (
+                <Text style={styles.speedText}>
+                    {formatFileSize(task.bytesPerSecond)}/s
+                    {task.etaSeconds !== undefined ? ` · ${formatETA(task.etaSeconds)} left` : ''}
+                </Text>
+            ) : null}
+
             {/* Error Message */}
             {task.error && (
                 <Text style={styles.errorText}>{task.error.message}</Text>
             )}
 
+            {/* Network Policy */}
+            {task.status === 'waiting-for-network' && task.waitingReason && (
+                <Text style={styles.waitingText}>{task.waitingReason}</Text>
+            )}
+
             {/* Action Buttons */}
             <View style={styles.actions}>
                 {canPause && (
@@ -316,6 +363,11 @@ function DownloadItem({ task, onPause, onResume, onCancel, onDelete, onPlay }: D
                         <Text style={styles.actionButtonText}>⏸ Pause</Text>
                     </TouchableOpacity>
                 )}
+                {queuePosition > 0 && (
+                    <TouchableOpacity style={styles.actionButton} onPress={onMoveToFront}>
+                        <Text style={styles.actionButtonText}>⤒ Next</Text>
+                    </TouchableOpacity>
+                )}
                 {canResume && (
                     <TouchableOpacity style={[styles.actionButton, styles.resumeButton]} onPress={onResume}>
                         <Text style={styles.actionButtonText}>▶️ Resume</Text>
@@ -504,11 +556,21 @@ const styles = StyleSheet.create({
         minWidth: 40,
         textAlign: 'right',
     },
+    speedText: {
+        fontSize: 12,
+        color: '#666',
+        marginBottom: 10,
+    },
     errorText: {
         color: '#F44336',
         fontSize: 12,
         marginBottom: 10,
     },
+    waitingText: {
+        color: '#795548',
+        fontSize: 12,
+        marginBottom: 10,
+    },
     actions: {
         flexDirection: 'row',
         gap: 8,
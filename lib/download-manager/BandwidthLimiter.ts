@@ -0,0 +1,63 @@
+/**
+ * Bandwidth Limiter
+ * Token bucket that paces transfers to a byte rate
+ * Consumers go into debt and wait it off, so concurrent transfers share the rate
+ */
+
+export class BandwidthLimiter {
+    private bytesPerSecond: number;
+    private tokens: number;
+    private lastRefill: number = Date.now();
+
+    /**
+     * @param bytesPerSecond - Rate limit (0 = unlimited)
+     */
+    constructor(bytesPerSecond: number = 0) {
+        this.bytesPerSecond = bytesPerSecond;
+        this.tokens = bytesPerSecond;
+    }
+
+    /**
+     * Change the rate limit (0 = unlimited)
+     */
+    public setRate(bytesPerSecond: number): void {
+        this.refill();
+        this.bytesPerSecond = bytesPerSecond;
+        this.tokens = Math.min(this.tokens, bytesPerSecond);
+    }
+
+    /**
+     * Get the rate limit (0 = unlimited)
+     */
+    public getRate(): number {
+        return this.bytesPerSecond;
+    }
+
+    /**
+     * Take bytes from the bucket, waiting until the rate allows them
+     */
+    public async consume(bytes: number): Promise<void> {
+        if (this.bytesPerSecond <= 0) return;
+
+        this.refill();
+        this.tokens -= bytes;
+
+        if (this.tokens < 0) {
+            const waitMs = (-this.tokens / this.bytesPerSecond) * 1000;
+            await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+    }
+
+    /**
+     * Add tokens for the time since the last refill (at most one second's worth)
+     */
+    private refill(): void {
+        const now = Date.now();
+        const elapsedSeconds = (now - this.lastRefill) / 1000;
+        this.lastRefill = now;
+
+        if (this.bytesPerSecond > 0) {
+            this.tokens = Math.min(this.bytesPerSecond, this.tokens + elapsedSeconds * this.bytesPerSecond);
+        }
+    }
+}
@@ -6,43 +6,141 @@
 
 import EventEmitter from 'eventemitter3';
 import * as FileSystem from 'expo-file-system/legacy';
+import { AppState, NativeEventSubscription } from 'react-native';
+import { BandwidthLimiter } from './BandwidthLimiter';
+import { computeChecksum, normalizeChecksum, parseServerChecksum } from './checksum';
 import { DownloadQueue } from './DownloadQueue';
+import { DownloadStatistics } from './DownloadStatistics';
 import { NetworkMonitor } from './NetworkMonitor';
+import { SpeedTracker } from './SpeedTracker';
 import { StorageManager } from './StorageManager';
-import { DEFAULT_CONFIG, ERROR_CODES } from './constants';
+import { StorageMonitor } from './StorageMonitor';
 import {
+    CONNECTION_TYPE_LABELS,
+    DEFAULT_CONFIG,
+    DEFAULT_RETRY_POLICY,
+    ERROR_CODES,
+    FILE_LIMITS,
+    TIMING,
+} from './constants';
+import { buildLocalDashManifest } from './media/dash';
+import {
+    buildLocalMasterPlaylist,
+    HlsLocalPlaylist,
+    isMasterPlaylist,
+    parseMasterPlaylist,
+    rewriteMediaPlaylist,
+    selectAudioRendition,
+} from './media/hls';
+import { selectVariant } from './media/variants';
+import {
+    ByteRange,
+    ConnectionType,
+    DailyStats,
     DownloadError,
     DownloadEvent,
+    DownloadGroup,
+    DownloadGroupOptions,
+    DownloadGroupProgress,
     DownloadManagerConfig,
     DownloadOptions,
+    DownloadStats,
     DownloadStatus,
-    DownloadTask
+    DownloadTask,
+    DownloadTransport,
+    EvictionInfo,
+    MediaFormat,
+    MediaResource,
+    PersistedConfig,
+    PreflightInfo,
+    QueueItem,
+    ReconciliationReport,
+    RetryPolicy,
+    TransportProgress,
+    TransportRequest,
+    TransportResult,
+    TransportSession,
 } from './types';
+import { FileSystemTransport, RangedTransport } from './transports';
 import {
+    calculateETA,
+    classifyError,
+    classifyHttpStatus,
+    createWatchdog,
+    detectMediaFormat,
+    ensureDownloadDirectory,
+    generateGroupId,
     generateTaskId,
+    getConfigError,
+    getMimeTypeExtension,
+    getNextWindowStart,
+    getRetryDelay,
+    getWindowEnd,
     hasEnoughStorage,
+    isAuthFailure,
+    isStreamingFormat,
+    parseContentDisposition,
     sanitizeFileName,
     throttle,
     validateUrl,
 } from './utils';
 
+/**
+ * Where a single transfer reads from and writes to
+ */
+interface TransportTarget extends Pick<TransportRequest, 'url' | 'filePath'> {
+    transport?: DownloadTransport;   // Defaults to the configured transport
+}
+
 export class DownloadManager extends EventEmitter {
     private static instance: DownloadManager;
 
     private tasks: Map<string, DownloadTask> = new Map();
-    private downloads: Map<string, any> = new Map(); // FileSystem.DownloadResumable не экспортируется
+    private groups: Map<string, DownloadGroup> = new Map();
+    private sessions: Map<string, TransportSession> = new Map();
+    private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    private scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+    private appStateSubscription: NativeEventSubscription | null = null;
+    private transport: DownloadTransport;
+    private bandwidth: BandwidthLimiter;
+    private taskBandwidth: Map<string, BandwidthLimiter> = new Map();
+    private speedTrackers: Map<string, SpeedTracker> = new Map();
+    private checkpointTimes: Map<string, number> = new Map();
     private queue: DownloadQueue;
+    private statistics: DownloadStatistics;
     private storage: StorageManager;
     private network: NetworkMonitor;
+    private storageMonitor: StorageMonitor;
     private config: DownloadManagerConfig;
-    private isInitialized = false;
+    private persistedConfig: PersistedConfig = {};
+    private initPromise: Promise<void> | null = null;
+    private reconciliationReport: ReconciliationReport | null = null;
 
     private constructor(config: Partial<DownloadManagerConfig> = {}) {
         super();
         this.config = { ...DEFAULT_CONFIG, ...config };
-        this.queue = new DownloadQueue(this.config.maxConcurrentDownloads);
+        this.transport = this.config.transport ?? new FileSystemTransport();
+        this.bandwidth = new BandwidthLimiter(this.config.maxBytesPerSecond);
+        this.queue = new DownloadQueue(this.config.maxConcurrentDownloads, () => {
+            this.emit(DownloadEvent.QUEUE_CHANGED, this.queue.getQueuedTaskIds());
+            this.persistQueue();
+        });
+        this.statistics = new DownloadStatistics(() => {
+            this.emit(DownloadEvent.STATS_CHANGED, this.statistics.getStats());
+            this.storage.saveStats(this.statistics.getRecord());
+        });
         this.storage = StorageManager.getInstance();
+        if (this.config.persistence) {
+            this.storage.setAdapter(this.config.persistence);
+        }
         this.network = NetworkMonitor.getInstance();
+        this.storageMonitor = StorageMonitor.getInstance();
+
+        const configError = getConfigError(this.config);
+        if (configError) {
+            throw new Error(configError);
+        }
+        this.warnIfLimitIgnored(this.config.maxBytesPerSecond);
     }
 
     /**
@@ -51,72 +149,357 @@ export class DownloadManager extends EventEmitter {
     public static getInstance(config?: Partial<DownloadManagerConfig>): DownloadManager {
         if (!DownloadManager.instance) {
             DownloadManager.instance = new DownloadManager(config);
+        } else if (config) {
+            console.warn('DownloadManager is already created, use updateConfig() to change settings');
         }
         return DownloadManager.instance;
     }
 
     /**
      * Initialize the download manager
-     * Must be called before using
+     * Must be called before using. Concurrent and repeated calls share the first run
      */
-    public async initialize(): Promise<void> {
-        if (this.isInitialized) return;
+    public initialize(): Promise<void> {
+        if (!this.initPromise) {
+            this.initPromise = this.runInitialize();
+        }
+        return this.initPromise;
+    }
 
+    /**
+     * Restore persisted state and start monitoring (runs once, see initialize)
+     */
+    private async runInitialize(): Promise<void> {
         // Initialize storage
         await this.storage.initialize();
 
+        // Apply settings changed in a previous session
+        const savedConfig = await this.storage.loadConfig();
+        const savedConfigError = getConfigError(savedConfig);
+        if (savedConfigError) {
+            console.warn('Ignoring saved config:', savedConfigError);
+        } else {
+            this.persistedConfig = savedConfig;
+            await this.applyConfig(savedConfig);
+        }
+
+        // Aggregate outcomes into statistics that outlive the tasks
+        // (before restored tasks can finish)
+        const savedStats = await this.storage.loadStats();
+        if (savedStats) {
+            this.statistics.restore(savedStats);
+        }
+        this.on(DownloadEvent.COMPLETED, (task) => this.statistics.recordCompleted(task));
+        this.on(DownloadEvent.ERROR, (task) => this.statistics.recordFailed(task));
+        this.on(DownloadEvent.CANCELLED, (task) => this.statistics.recordCancelled(task));
+
         // Load persisted tasks
         const savedTasks = await this.storage.loadTasks();
+        const interrupted: DownloadTask[] = [];
         for (const task of savedTasks) {
-            // Reset downloading status to paused on app restart
+            // Downloads cut off by an app kill are queued again or paused
             if (task.status === DownloadStatus.DOWNLOADING) {
-                task.status = DownloadStatus.PAUSED;
+                delete task.bytesPerSecond;
+                delete task.etaSeconds;
+                // A single transfer without resume data starts over: it wasn't checkpointed yet,
+                // or its transport can only resume after pause() (FileSystemTransport)
+                if (!task.resumeData && !task.ranges && !task.media) {
+                    task.downloadedBytes = 0;
+                    task.progress = 0;
+                }
+                if (this.config.autoResumeInterrupted) {
+                    task.status = DownloadStatus.PENDING;
+                    interrupted.push(task);
+                } else {
+                    task.status = DownloadStatus.PAUSED;
+                }
+                this.storage.saveTask(task);
             }
             this.tasks.set(task.id, task);
+
+            // Reschedule retries that were pending when the app closed
+            if (task.status === DownloadStatus.RETRY_PENDING) {
+                this.scheduleRetry(task.id, Math.max(0, (task.nextRetryAt ?? 0) - Date.now()));
+            }
+
+            // Finish verifications interrupted by the app closing
+            if (task.status === DownloadStatus.VERIFYING) {
+                this.finishDownload(task).catch((error) => {
+                    this.handleDownloadError(task.id, {
+                        code: classifyError(error),
+                        message: error.message || 'Verification failed',
+                        timestamp: Date.now(),
+                    });
+                });
+            }
+        }
+
+        // Rebuild the queue (started by the schedule check at the end of initialize)
+        await this.restoreQueue(interrupted);
+
+        // Load groups, dropping members whose tasks are gone
+        for (const group of await this.storage.loadGroups()) {
+            group.taskIds = group.taskIds.filter(id => this.tasks.has(id));
+            if (group.taskIds.length > 0) {
+                this.groups.set(group.id, group);
+            }
         }
 
+        // Cross-check tasks with the files on disk
+        this.reconciliationReport = await this.reconcile();
+
         // Start network monitoring
         await this.network.startMonitoring();
 
         // Handle network state changes
         this.network.on('online', () => this.handleNetworkOnline());
         this.network.on('offline', () => this.handleNetworkOffline());
+        this.network.on('type-change', () => this.handleConnectionChange());
+
+        // Start tasks that were waiting for a connection type that is now active
+        this.handleConnectionChange();
+
+        // Pause and resume downloads as free space changes (subscribed first to get the initial reading)
+        this.storageMonitor.on('update', (freeBytes: number) => this.handleFreeSpace(freeBytes));
+        await this.storageMonitor.startMonitoring();
+
+        // Timers don't run while the app is suspended, re-check schedules on foreground
+        // and write batched changes before the app may be killed in the background
+        this.appStateSubscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') this.evaluateSchedule();
+            if (state === 'background') this.storage.flush();
+        });
+        this.evaluateSchedule();
+    }
 
-        this.isInitialized = true;
+    /**
+     * Check tasks against the files on disk and clean up what doesn't match
+     * Runs during initialize; tasks that are transferring are left alone
+     */
+    public async reconcile(): Promise<ReconciliationReport> {
+        const report: ReconciliationReport = {
+            missingFiles: [],
+            sizeMismatches: [],
+            resetTasks: [],
+            adoptedFiles: [],
+            deletedFiles: [],
+            keptFiles: [],
+            staleMetadata: [],
+        };
+
+        for (const task of this.getAllTasks()) {
+            if (task.status === DownloadStatus.DOWNLOADING || task.status === DownloadStatus.VERIFYING) {
+                continue;
+            }
+
+            if (task.status !== DownloadStatus.COMPLETED) {
+                if (await this.resetMissingPartials(task)) {
+                    report.resetTasks.push(task.id);
+                }
+                continue;
+            }
+
+            const problem = await this.checkCompletedFiles(task);
+            if (problem === ERROR_CODES.FILE_MISSING) {
+                report.missingFiles.push(task.id);
+            } else if (problem === ERROR_CODES.FILE_SIZE_MISMATCH) {
+                report.sizeMismatches.push(task.id);
+            }
+        }
+
+        await this.reconcileOrphanFiles(report);
+        report.staleMetadata = await this.storage.pruneMetadata(new Set(this.tasks.keys()));
+
+        // Groups whose files went missing are no longer complete
+        for (const groupId of Array.from(this.groups.keys())) {
+            this.checkGroupCompleted(groupId);
+        }
+
+        for (const taskId of report.resetTasks) {
+            this.persistTask(taskId);
+        }
+        return report;
+    }
+
+    /**
+     * Get download statistics: totals, per-host speed and failure rate, per-day totals
+     */
+    public getStats(): DownloadStats {
+        return this.statistics.getStats();
+    }
+
+    /**
+     * Get per-day statistics for the last days up to today, oldest first
+     * Days without downloads are included with zero counts
+     */
+    public getDailyStats(days: number = 30): DailyStats[] {
+        return this.statistics.getDailyStats(days);
+    }
+
+    /**
+     * Clear all download statistics
+     */
+    public resetStats(): void {
+        this.statistics.reset();
+    }
+
+    /**
+     * Get the report of the reconciliation run during initialize
+     */
+    public getReconciliationReport(): ReconciliationReport | null {
+        return this.reconciliationReport;
     }
 
     /**
      * Start a new download
      */
     public async download(url: string, options: DownloadOptions = {}): Promise<string> {
+        return this.addDownload(url, options);
+    }
+
+    /**
+     * Download several files as a group with aggregate progress and controls
+     * @returns Group ID
+     */
+    public async downloadGroup(urls: string[], options: DownloadGroupOptions): Promise<string> {
+        const invalidUrl = urls.find(url => !validateUrl(url));
+        if (invalidUrl) {
+            throw new Error(`${ERROR_CODES.INVALID_URL}: Invalid URL format: ${invalidUrl}`);
+        }
+
+        const { title, ...downloadOptions } = options;
+        const group: DownloadGroup = {
+            id: generateGroupId(),
+            title,
+            taskIds: [],
+            createdAt: Date.now(),
+        };
+        this.groups.set(group.id, group);
+
+        const existingTaskIds = new Set(this.tasks.keys());
+        try {
+            for (const url of urls) {
+                await this.addDownload(url, downloadOptions, group);
+            }
+        } catch (error) {
+            // Don't leave a partial group: drop the tasks it created, release the ones it joined
+            this.groups.delete(group.id);
+            for (const taskId of group.taskIds) {
+                if (existingTaskIds.has(taskId)) {
+                    delete this.tasks.get(taskId)?.groupId;
+                } else {
+                    await this.cancel(taskId);
+                }
+            }
+            await this.persistGroups();
+            throw error;
+        }
+
+        await this.persistGroups();
+        return group.id;
+    }
+
+    /**
+     * Create a task and queue it
+     * @param group - Group the task joins
+     */
+    private async addDownload(url: string, options: DownloadOptions, group?: DownloadGroup): Promise<string> {
         // Validate URL
         if (!validateUrl(url)) {
             throw new Error(`${ERROR_CODES.INVALID_URL}: Invalid URL format`);
         }
 
-        // Generate task ID and file info
-        const taskId = generateTaskId();
-        const fileName = sanitizeFileName(url, options.fileName);
-        const filePath = this.storage.getFilePath(fileName);
+        if (options.startAt !== undefined && !Number.isFinite(options.startAt)) {
+            throw new Error('startAt must be a timestamp');
+        }
+
+        // A repeated request returns the task it created (checked before any network round-trip)
+        if (options.idempotencyKey) {
+            const existing = this.getAllTasks().find(t => t.idempotencyKey === options.idempotencyKey);
+            if (existing) return this.addToGroup(existing, group);
+        }
 
-        // Create task
+        const duplicatePolicy = options.duplicatePolicy ?? this.config.duplicatePolicy;
+        const sameUrl = this.getAllTasks().find(t => t.url === url);
+        if (sameUrl && duplicatePolicy === 'reject') {
+            throw new Error(`${ERROR_CODES.DUPLICATE_DOWNLOAD}: URL is already downloaded by task ${sameUrl.id}`);
+        }
+        if (sameUrl && duplicatePolicy === 'return-existing') {
+            return this.addToGroup(sameUrl, group);
+        }
+
+        // Create task (file name and path are chosen after the preflight)
+        const taskId = generateTaskId();
         const task: DownloadTask = {
             id: taskId,
             url,
-            fileName,
-            filePath,
+            fileName: '',
+            filePath: '',
             status: DownloadStatus.PENDING,
             progress: 0,
             totalBytes: 0,
             downloadedBytes: 0,
             createdAt: Date.now(),
+            headers: options.headers,
+            retryPolicy: options.retryPolicy,
+            format: options.format ?? detectMediaFormat(url),
+            variant: options.variant,
+            segmentCount: options.segmentCount,
+            checksum: options.checksum,
+            idempotencyKey: options.idempotencyKey,
+            pinned: options.pinned,
+            maxBytesPerSecond: options.maxBytesPerSecond,
+            allowedNetworks: options.allowedNetworks,
+            startAt: options.startAt,
+            priority: options.priority,
         };
 
+        // Ask the server about the file before naming it (manifests are fetched anyway)
+        // A server checksum needs it: resumed and ranged transfers end with 206 responses
+        // Not on a disallowed connection: a ranged download sends it when it starts instead
+        const preflight = options.preflight ?? this.config.preflight;
+        if (!isStreamingFormat(task.format) && (preflight || task.checksum === 'server') &&
+            this.isNetworkAllowed(task)) {
+            task.preflight = await this.runPreflight(task);
+            task.totalBytes = task.preflight?.contentLength ?? 0;
+            task.format = options.format ?? detectMediaFormat(url, task.preflight?.contentType);
+        }
+        const format = task.format;
+
+        if (options.checksum && isStreamingFormat(format)) {
+            throw new Error('Checksums are only supported for single-file downloads');
+        }
+
+        // Streaming formats get a directory with manifests and segments
+        const toStoragePath = (name: string) => isStreamingFormat(format)
+            ? this.storage.getMediaDirectory(name)
+            : this.storage.getFilePath(name);
+
+        // Never share a file with another task (cancelling one would delete the other's file)
+        const requestedName = sanitizeFileName(
+            url,
+            options.fileName ?? task.preflight?.fileName,
+            getMimeTypeExtension(task.preflight?.contentType) || undefined
+        );
+        const takenPaths = new Set(this.getAllTasks().map(t => this.storage.getTaskStoragePath(t)));
+        const fileName = this.storage.getUniqueFileName(requestedName, toStoragePath, takenPaths);
+        if (fileName !== requestedName && duplicatePolicy === 'reject') {
+            throw new Error(`${ERROR_CODES.DUPLICATE_DOWNLOAD}: ${requestedName} already exists`);
+        }
+
+        task.fileName = fileName;
+        task.filePath = isStreamingFormat(format)
+            ? `${toStoragePath(fileName)}${format === 'dash' ? 'index.mpd' : 'index.m3u8'}`
+            : toStoragePath(fileName);
+
         this.tasks.set(taskId, task);
+        this.addToGroup(task, group);
+        this.persistTask(taskId);
+        this.warnIfLimitIgnored(task.maxBytesPerSecond);
         await this.storage.saveMetadata(task);
 
-        // Add to queue
-        this.queue.add(taskId, options.priority || 0);
+        // Add to queue (scheduled if its start time or the allowed hours haven't come yet)
+        this.enqueue(task);
 
         // Try to start download immediately if capacity available
         this.processQueue();
@@ -133,33 +516,57 @@ export class DownloadManager extends EventEmitter {
             throw new Error('Task not found');
         }
 
+        // Take a queued or scheduled task out of the queue
+        if (task.status === DownloadStatus.PENDING || task.status === DownloadStatus.SCHEDULED) {
+            this.queue.remove(taskId);
+            delete task.scheduledFor;
+            this.updateTaskStatus(taskId, DownloadStatus.PAUSED);
+            this.processQueue();
+            return;
+        }
+
+        // Stop waiting for an allowed connection
+        if (task.status === DownloadStatus.WAITING_FOR_NETWORK) {
+            delete task.waitingReason;
+            this.updateTaskStatus(taskId, DownloadStatus.PAUSED);
+            return;
+        }
+
+        // Drop a scheduled retry
+        if (task.status === DownloadStatus.RETRY_PENDING) {
+            this.clearRetryTimer(taskId);
+            delete task.nextRetryAt;
+            this.updateTaskStatus(taskId, DownloadStatus.PAUSED);
+            return;
+        }
+
         if (task.status !== DownloadStatus.DOWNLOADING) {
             return; // Already paused or not downloading
         }
 
-        const downloadResumable = this.downloads.get(taskId);
-        if (downloadResumable) {
-            try {
-                const pauseResult = await downloadResumable.pauseAsync();
+        const session = this.sessions.get(taskId);
+        if (!session) {
+            // Between transfers: the download stops before starting the next one
+            this.updateTaskStatus(taskId, DownloadStatus.PAUSED);
+            this.queue.complete(taskId);
+            this.processQueue();
+            return;
+        }
 
-                // Store resume data (handle both Android object with resumeData and other formats)
-                if (typeof pauseResult === 'object' && pauseResult !== null && 'resumeData' in pauseResult) {
-                    task.resumeData = pauseResult.resumeData;
-                } else {
-                    task.resumeData = JSON.stringify(pauseResult);
-                }
+        try {
+            // Detach first so the session's settling start() is ignored
+            this.sessions.delete(taskId);
+            task.resumeData = await session.pause();
 
-                this.updateTaskStatus(taskId, DownloadStatus.PAUSED);
-                await this.persistTasks();
+            this.updateTaskStatus(taskId, DownloadStatus.PAUSED);
 
-                this.queue.complete(taskId);
-                this.downloads.delete(taskId);
+            this.queue.complete(taskId);
 
-                // Process queue to start next download
-                this.processQueue();
-            } catch (error) {
-                console.error('Failed to pause download:', error);
-            }
+            // Process queue to start next download
+            this.processQueue();
+        } catch (error) {
+            this.sessions.set(taskId, session);
+            console.error('Failed to pause download:', error);
         }
     }
 
@@ -172,7 +579,12 @@ export class DownloadManager extends EventEmitter {
             throw new Error('Task not found');
         }
 
-        if (task.status !== DownloadStatus.PAUSED && task.status !== DownloadStatus.FAILED) {
+        if (
+            task.status !== DownloadStatus.PAUSED &&
+            task.status !== DownloadStatus.FAILED &&
+            task.status !== DownloadStatus.RETRY_PENDING &&
+            task.status !== DownloadStatus.WAITING_FOR_NETWORK
+        ) {
             return; // Not in resumable state
         }
 
@@ -181,14 +593,24 @@ export class DownloadManager extends EventEmitter {
             throw new Error('No network connection');
         }
 
-        // Reset error if resuming from failed state
+        // Reset error and retry budget if resuming from failed state
         if (task.status === DownloadStatus.FAILED) {
             delete task.error;
+            task.retryCount = 0;
         }
 
-        // Update status and add back to queue
-        this.updateTaskStatus(taskId, DownloadStatus.PENDING);
-        this.queue.add(taskId);
+        // Free space and connection type are checked again when the task starts
+        if (this.isWaitingForStorage(task)) {
+            delete task.error;
+        }
+        delete task.waitingReason;
+
+        // Retry right away instead of waiting for the timer
+        this.clearRetryTimer(taskId);
+        delete task.nextRetryAt;
+
+        // Add back to queue (scheduled again outside its start time or the allowed hours)
+        this.enqueue(task);
         this.processQueue();
     }
 
@@ -202,21 +624,24 @@ export class DownloadManager extends EventEmitter {
         }
 
         // Stop download if active
-        const downloadResumable = this.downloads.get(taskId);
-        if (downloadResumable) {
+        const session = this.sessions.get(taskId);
+        if (session) {
+            this.sessions.delete(taskId);
             try {
-                await downloadResumable.pauseAsync();
+                await session.cancel();
             } catch (error) {
-                console.error('Error pausing during cancel:', error);
+                console.error('Error stopping during cancel:', error);
             }
-            this.downloads.delete(taskId);
         }
 
         // Remove from queue
+        this.clearRetryTimer(taskId);
         this.queue.remove(taskId);
+        this.taskBandwidth.delete(taskId);
 
-        // Delete file
-        await this.storage.deleteFile(task.filePath);
+        // Delete file (or the whole directory of a streaming download)
+        await this.discardRanges(task);
+        await this.storage.deleteFile(this.storage.getTaskStoragePath(task));
         await this.storage.deleteMetadata(taskId);
 
         // Update status
@@ -227,226 +652,1965 @@ export class DownloadManager extends EventEmitter {
 
         // Remove from tasks
         this.tasks.delete(taskId);
+        this.removeFromGroup(task);
 
-        // Save state
-        await this.persistTasks();
+        // Delete the saved record
+        this.persistTask(taskId);
 
         // Process queue to start next download
         this.processQueue();
     }
 
     /**
-     * Get a specific task
+     * Change the priority of a task
+     * A queued task moves ahead of every lower-priority one; others keep it for when they are queued again
      */
-    public getTask(taskId: string): DownloadTask | undefined {
-        return this.tasks.get(taskId);
-    }
+    public async setPriority(taskId: string, priority: number): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+        if (!Number.isFinite(priority)) {
+            throw new Error('priority must be a number');
+        }
 
-    /**
-     * Get all tasks
-     */
-    public getAllTasks(): DownloadTask[] {
-        return Array.from(this.tasks.values());
+        task.priority = priority;
+        this.queue.setPriority(taskId, priority);
+        await this.handleQueueReordered();
     }
 
     /**
-     * Get active downloads
+     * Move a queued task to the front of the queue
      */
-    public getActiveDownloads(): DownloadTask[] {
-        return this.getAllTasks().filter(
-            task => task.status === DownloadStatus.DOWNLOADING
-        );
+    public async moveToFront(taskId: string): Promise<void> {
+        if (!this.tasks.has(taskId)) {
+            throw new Error('Task not found');
+        }
+
+        if (this.queue.moveToFront(taskId)) {
+            await this.handleQueueReordered();
+        }
     }
 
     /**
-     * Process the download queue
+     * Move a queued task to the back of the queue
      */
-    private processQueue(): void {
-        while (this.queue.hasCapacity()) {
-            const taskId = this.queue.getNext();
-            if (!taskId) break;
+    public async moveToBack(taskId: string): Promise<void> {
+        if (!this.tasks.has(taskId)) {
+            throw new Error('Task not found');
+        }
 
-            this.startDownload(taskId);
+        if (this.queue.moveToBack(taskId)) {
+            await this.handleQueueReordered();
         }
     }
 
     /**
-     * Start downloading a specific task
+     * Put queued tasks in the given order
+     * Listed tasks go first, the others keep their order behind them
      */
-    private async startDownload(taskId: string): Promise<void> {
-        const task = this.tasks.get(taskId);
-        if (!task) return;
-
-        try {
-            // Check storage space
-            if (task.totalBytes > 0) {
-                const hasSpace = await hasEnoughStorage(task.totalBytes);
-                if (!hasSpace) {
-                    this.handleDownloadError(taskId, {
-                        code: ERROR_CODES.INSUFFICIENT_STORAGE,
-                        message: 'Insufficient storage space',
-                        timestamp: Date.now(),
-                    });
-                    return;
-                }
-            }
-
-            // Update status
-            this.updateTaskStatus(taskId, DownloadStatus.DOWNLOADING);
-            task.startedAt = Date.now();
-
-            // Create download progress callback with throttling
-            const progressCallback = throttle(
-                (downloadProgress: any) => {
-                    this.handleProgress(taskId, downloadProgress);
-                },
-                this.config.progressUpdateThrottleMs
-            );
-
-            // Create resumable download
-            const downloadResumable = FileSystem.createDownloadResumable(
-                task.url,
-                task.filePath,
-                {
-                    sessionType: FileSystem.FileSystemSessionType.BACKGROUND
-                },
-                progressCallback,
-                task.resumeData
-            );
-
-            this.downloads.set(taskId, downloadResumable);
+    public async reorderQueue(taskIds: string[]): Promise<void> {
+        this.queue.reorder(taskIds);
+        await this.handleQueueReordered();
+    }
 
-            // Start download
-            const result = await downloadResumable.downloadAsync();
+    /**
+     * Get queued task IDs in the order they will start
+     */
+    public getQueue(): string[] {
+        return this.queue.getQueuedTaskIds();
+    }
 
-            if (result) {
-                // Download completed successfully
-                task.completedAt = Date.now();
-                task.progress = 100;
-                delete task.resumeData; // Cleanup resume data
-                this.updateTaskStatus(taskId, DownloadStatus.COMPLETED);
-                this.queue.complete(taskId);
-                this.downloads.delete(taskId);
+    /**
+     * Get the position of a task in the queue (0 = next), -1 if not queued
+     */
+    public getQueuePosition(taskId: string): number {
+        return this.queue.getQueuedTaskIds().indexOf(taskId);
+    }
 
-                this.emit(DownloadEvent.COMPLETED, task);
-                await this.persistTasks();
+    /**
+     * Pause every unfinished task of a group
+     */
+    public async pauseGroup(groupId: string): Promise<void> {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            throw new Error('Group not found');
+        }
 
-                // Process next in queue
-                this.processQueue();
-            }
-        } catch (error: any) {
-            this.handleDownloadError(taskId, {
-                code: ERROR_CODES.NETWORK_ERROR,
-                message: error.message || 'Download failed',
-                timestamp: Date.now(),
-            });
+        // Queued tasks first, so pausing a running one doesn't start the next member
+        const tasks = this.getGroupTasks(group);
+        const running = tasks.filter(task => task.status === DownloadStatus.DOWNLOADING);
+        for (const task of [...tasks.filter(task => !running.includes(task)), ...running]) {
+            await this.pause(task.id);
         }
     }
 
     /**
-     * Handle download progress
+     * Resume every paused or failed task of a group
      */
-    private handleProgress(
-        taskId: string,
-        progress: any // DownloadProgressData { totalBytesWritten, totalBytesExpectedToWrite }
-    ): void {
-        const task = this.tasks.get(taskId);
-        if (!task) return;
-
-        task.totalBytes = progress.totalBytesExpectedToWrite;
-        task.downloadedBytes = progress.totalBytesWritten;
-        task.progress = Math.round(
-            (progress.totalBytesWritten / progress.totalBytesExpectedToWrite) * 100
-        );
+    public async resumeGroup(groupId: string): Promise<void> {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            throw new Error('Group not found');
+        }
 
-        this.emit(DownloadEvent.PROGRESS, task);
+        for (const task of this.getGroupTasks(group)) {
+            await this.resume(task.id);
+        }
     }
 
     /**
-     * Handle download error
+     * Cancel every task of a group and delete their files
      */
-    private handleDownloadError(taskId: string, error: DownloadError): void {
-        const task = this.tasks.get(taskId);
-        if (!task) return;
-
-        task.error = error;
-        this.updateTaskStatus(taskId, DownloadStatus.FAILED);
-        this.queue.complete(taskId);
-        this.downloads.delete(taskId);
+    public async cancelGroup(groupId: string): Promise<void> {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            throw new Error('Group not found');
+        }
 
-        this.emit(DownloadEvent.ERROR, task, error);
-        this.persistTasks();
+        for (const taskId of [...group.taskIds]) {
+            await this.cancel(taskId);
+        }
 
-        // Process next in queue
-        this.processQueue();
+        this.groups.delete(groupId);
+        await this.persistGroups();
     }
 
     /**
-     * Update task status
+     * Get a specific group
      */
-    private updateTaskStatus(taskId: string, newStatus: DownloadStatus): void {
-        const task = this.tasks.get(taskId);
-        if (!task) return;
-
-        const oldStatus = task.status;
-        task.status = newStatus;
-
-        this.emit(DownloadEvent.STATUS_CHANGE, task, oldStatus);
+    public getGroup(groupId: string): DownloadGroup | undefined {
+        return this.groups.get(groupId);
     }
 
     /**
-     * Handle network coming online
+     * Get all groups
      */
-    private handleNetworkOnline(): void {
-        if (!this.config.autoRetryOnNetworkRestore) return;
+    public getAllGroups(): DownloadGroup[] {
+        return Array.from(this.groups.values());
+    }
 
-        // Resume paused downloads due to network loss
-        const failedTasks = this.getAllTasks().filter(
-            task => task.status === DownloadStatus.FAILED &&
-                task.error?.code === ERROR_CODES.NETWORK_ERROR
-        );
+    /**
+     * Get the aggregate bytes, progress and status of a group
+     */
+    public getGroupProgress(groupId: string): DownloadGroupProgress | undefined {
+        const group = this.groups.get(groupId);
+        if (!group) return undefined;
+
+        const tasks = this.getGroupTasks(group);
+        const totalBytes = tasks.reduce((sum, task) => sum + task.totalBytes, 0);
+        const downloadedBytes = tasks.reduce((sum, task) => sum + task.downloadedBytes, 0);
+        const completedCount = tasks.filter(task => task.status === DownloadStatus.COMPLETED).length;
+        const failedCount = tasks.filter(task => task.status === DownloadStatus.FAILED).length;
+
+        // Bytes are only comparable once every size is known
+        let progress = 0;
+        if (tasks.length > 0) {
+            progress = tasks.every(task => task.totalBytes > 0)
+                ? Math.min(100, Math.floor((downloadedBytes / totalBytes) * 100))
+                : Math.floor(tasks.reduce((sum, task) => sum + task.progress, 0) / tasks.length);
+        }
 
-        for (const task of failedTasks) {
-            this.resume(task.id).catch(err =>
-                console.error('Failed to auto-resume:', err)
-            );
+        const idleStatuses = [
+            DownloadStatus.PAUSED,
+            DownloadStatus.FAILED,
+            DownloadStatus.COMPLETED,
+            DownloadStatus.CANCELLED,
+        ];
+        let status: DownloadGroupProgress['status'] = 'paused';
+        if (tasks.length > 0 && completedCount === tasks.length) {
+            status = 'completed';
+        } else if (tasks.some(task => !idleStatuses.includes(task.status))) {
+            status = 'active';
+        } else if (failedCount > 0) {
+            status = 'failed';
         }
+
+        return { group, tasks, status, progress, totalBytes, downloadedBytes, completedCount, failedCount };
     }
 
     /**
-     * Handle network going offline
+     * Record that a completed download was used (e.g. played), for LRU eviction
      */
-    private handleNetworkOffline(): void {
-        // Pause all active downloads
-        const activeDownloads = this.getActiveDownloads();
-        for (const task of activeDownloads) {
-            this.pause(task.id).catch(err =>
-                console.error('Failed to pause on network loss:', err)
-            );
+    public async markAccessed(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            throw new Error('Task not found');
         }
+
+        task.lastAccessedAt = Date.now();
+        this.persistTask(taskId);
     }
 
     /**
-     * Persist tasks to storage
+     * Pin a download so the storage quota never evicts it
      */
-    private async persistTasks(): Promise<void> {
-        await this.storage.saveTasks(this.tasks);
+    public async setPinned(taskId: string, pinned: boolean): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        task.pinned = pinned;
+        this.persistTask(taskId);
     }
 
     /**
-     * Clean up resources
+     * Change a bandwidth cap at runtime (0 = unlimited)
+     * @param taskId - Task to cap; omit to change the global cap shared by all tasks
      */
-    public async cleanup(): Promise<void> {
+    public async setBandwidthLimit(maxBytesPerSecond: number, taskId?: string): Promise<void> {
+        if (!Number.isFinite(maxBytesPerSecond) || maxBytesPerSecond < 0) {
+            throw new Error('maxBytesPerSecond must be a non-negative number');
+        }
+
+        if (!taskId) {
+            await this.updateConfig({ maxBytesPerSecond });
+            return;
+        }
+
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        if (maxBytesPerSecond > 0) {
+            task.maxBytesPerSecond = maxBytesPerSecond;
+        } else {
+            delete task.maxBytesPerSecond;
+        }
+        this.taskBandwidth.get(taskId)?.setRate(maxBytesPerSecond);
+        this.persistTask(taskId);
+        this.warnIfLimitIgnored(maxBytesPerSecond);
+    }
+
+    /**
+     * Change which connection types downloads may use at runtime ([] = any)
+     * Active downloads on a connection that is no longer allowed wait for an allowed one
+     * @param taskId - Task to restrict; omit to change the global policy
+     */
+    public async setAllowedNetworks(allowedNetworks: ConnectionType[], taskId?: string): Promise<void> {
+        if (!taskId) {
+            await this.updateConfig({ allowedNetworks });
+            return;
+        }
+
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+        task.allowedNetworks = allowedNetworks;
+        this.persistTask(taskId);
+
+        this.handleConnectionChange();
+    }
+
+    /**
+     * Change settings at runtime
+     * Running downloads pick up the changes where possible. Everything except
+     * transport and authProvider (passed by the app on every launch) is saved for the next launch
+     */
+    public async updateConfig(changes: Partial<DownloadManagerConfig>): Promise<void> {
+        const configError = getConfigError(changes);
+        if (configError) {
+            throw new Error(configError);
+        }
+        if ('persistence' in changes) {
+            throw new Error('persistence can only be set when the manager is created');
+        }
+
+        await this.applyConfig(changes);
+
+        const persisted: PersistedConfig & Partial<DownloadManagerConfig> = { ...this.persistedConfig, ...changes };
+        delete persisted.transport;
+        delete persisted.authProvider;
+        this.persistedConfig = persisted;
+        await this.storage.saveConfig(persisted);
+
+        this.emit(DownloadEvent.CONFIG_CHANGED, this.getConfig(), changes);
+    }
+
+    /**
+     * Get the current settings
+     */
+    public getConfig(): DownloadManagerConfig {
+        return { ...this.config };
+    }
+
+    /**
+     * Re-check a completed file against the hash computed when it was downloaded
+     * Resolves false if the file changed or is missing
+     */
+    public async verify(taskId: string): Promise<boolean> {
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+        if (task.status !== DownloadStatus.COMPLETED || !task.hash) {
+            throw new Error('Task has no verified checksum');
+        }
+
+        try {
+            const value = await computeChecksum(task.filePath, task.hash.algorithm);
+            return value === task.hash.value;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Get a specific task
+     */
+    public getTask(taskId: string): DownloadTask | undefined {
+        return this.tasks.get(taskId);
+    }
+
+    /**
+     * Get all tasks
+     */
+    public getAllTasks(): DownloadTask[] {
+        return Array.from(this.tasks.values());
+    }
+
+    /**
+     * Get active downloads
+     */
+    public getActiveDownloads(): DownloadTask[] {
+        return this.getAllTasks().filter(
+            task => task.status === DownloadStatus.DOWNLOADING
+        );
+    }
+
+    /**
+     * Process the download queue
+     */
+    private processQueue(): void {
+        while (this.queue.hasCapacity()) {
+            const taskId = this.queue.getNext();
+            if (!taskId) break;
+
+            this.startDownload(taskId);
+        }
+
+        this.scheduleWakeup();
+    }
+
+    /**
+     * Add a task to the queue with its priority
+     * It becomes SCHEDULED if its start time or the allowed hours haven't come yet
+     */
+    private enqueue(task: DownloadTask): void {
+        const eligibleAt = this.getEligibleAt(task);
+        this.queue.add(task.id, task.priority ?? 0, eligibleAt);
+        this.applySchedule(task, eligibleAt);
+    }
+
+    /**
+     * Set a queued task to SCHEDULED or PENDING depending on when it may start
+     */
+    private applySchedule(task: DownloadTask, eligibleAt: number): void {
+        if (eligibleAt > Date.now()) {
+            task.scheduledFor = eligibleAt;
+            if (task.status !== DownloadStatus.SCHEDULED) {
+                this.updateTaskStatus(task.id, DownloadStatus.SCHEDULED);
+            }
+            this.persistTask(task.id);
+            return;
+        }
+
+        delete task.scheduledFor;
+        if (task.status !== DownloadStatus.PENDING) {
+            this.updateTaskStatus(task.id, DownloadStatus.PENDING);
+        }
+    }
+
+    /**
+     * Rebuild the queue from its persisted order
+     * Interrupted downloads go ahead of tasks with the same priority, queued tasks missing
+     * from the saved order (e.g. saved before the queue was persisted) are added by priority
+     */
+    private async restoreQueue(interrupted: DownloadTask[]): Promise<void> {
+        const isQueued = (task?: DownloadTask) => task?.status === DownloadStatus.PENDING ||
+            task?.status === DownloadStatus.SCHEDULED;
+
+        const savedItems = (await this.storage.loadQueue()).filter(item =>
+            isQueued(this.tasks.get(item.taskId)) && !interrupted.some(task => task.id === item.taskId)
+        );
+        const interruptedItems = interrupted.map(task => ({
+            taskId: task.id,
+            priority: task.priority ?? 0,
+            addedAt: Date.now(),
+            notBefore: 0,
+        }));
+
+        // Stable sort keeps the saved order within a priority
+        const items = [...interruptedItems, ...savedItems].sort((a, b) => b.priority - a.priority);
+        this.queue.restore(items);
+
+        const restored = new Set(items.map(item => item.taskId));
+        for (const task of this.getAllTasks()) {
+            if (task.status === DownloadStatus.PENDING && !restored.has(task.id)) {
+                this.enqueue(task);
+            }
+        }
+    }
+
+    /**
+     * Store the queue's priorities on the tasks and start whatever is first now
+     */
+    private async handleQueueReordered(): Promise<void> {
+        for (const taskId of this.queue.getQueuedTaskIds()) {
+            const task = this.tasks.get(taskId);
+            if (!task) continue;
+            task.priority = this.queue.getPriority(taskId);
+            this.persistTask(taskId);
+        }
+
+        if (this.config.preemptLowerPriority) {
+            await this.preemptLowerPriority();
+        }
+
+        this.processQueue();
+    }
+
+    /**
+     * Put the lowest-priority active download back into the queue
+     * if the next queued task has a higher priority and there is no free slot
+     */
+    private async preemptLowerPriority(): Promise<void> {
+        if (this.queue.hasCapacity()) return;
+
+        const next = this.queue.peekNext();
+        const lowest = this.queue.getLowestActive();
+        if (!next || !lowest || lowest.priority >= next.priority) return;
+
+        // Only transfers can be suspended, tasks still being checked finish starting
+        const task = this.tasks.get(lowest.taskId);
+        if (!task || task.status !== DownloadStatus.DOWNLOADING) return;
+
+        await this.requeue(lowest);
+    }
+
+    /**
+     * Put an active task back into the queue, keeping the resume data of its transfer
+     */
+    private async requeue(item: QueueItem): Promise<void> {
+        // Free the slot first, a task still being checked then doesn't start
+        this.queue.complete(item.taskId);
+
+        const task = this.tasks.get(item.taskId);
+        if (!task) return;
+
+        await this.suspendSession(task);
+        task.priority = item.priority;
+        this.enqueue(task);
+        this.persistTask(task.id);
+    }
+
+    /**
+     * Apply settings and their side effects on running downloads
+     * Progress throttling and the stall timeout are read live by running transfers
+     */
+    private async applyConfig(changes: Partial<DownloadManagerConfig>): Promise<void> {
+        this.config = { ...this.config, ...changes };
+
+        if ('transport' in changes) {
+            this.transport = this.config.transport ?? new FileSystemTransport();
+        }
+        if (changes.maxBytesPerSecond !== undefined) {
+            this.bandwidth.setRate(this.config.maxBytesPerSecond);
+        }
+        if (changes.maxBytesPerSecond !== undefined || 'transport' in changes) {
+            this.warnIfLimitIgnored(this.config.maxBytesPerSecond);
+        }
+        if (changes.maxConcurrentDownloads !== undefined) {
+            this.queue.setMaxConcurrent(this.config.maxConcurrentDownloads);
+
+            // Lowest priorities go back to the queue when the limit shrinks
+            while (this.queue.getActiveCount() > this.config.maxConcurrentDownloads) {
+                const lowest = this.queue.getLowestActive();
+                if (!lowest) break;
+                await this.requeue(lowest);
+            }
+        }
+        if (changes.allowedNetworks !== undefined) {
+            this.handleConnectionChange();
+        }
+        if ('allowedHours' in changes) {
+            this.evaluateSchedule();
+        }
+
+        this.processQueue();
+    }
+
+    /**
+     * Get the earliest time a task may start: its startAt, moved into the allowed hours
+     */
+    private getEligibleAt(task: DownloadTask): number {
+        const from = Math.max(Date.now(), task.startAt ?? 0);
+        return this.config.allowedHours ? getNextWindowStart(this.config.allowedHours, from) : from;
+    }
+
+    /**
+     * Re-check schedules against the clock
+     * Defers downloads whose allowed hours ended and starts scheduled tasks that are due
+     */
+    private evaluateSchedule(): void {
+        const now = Date.now();
+
+        for (const task of this.getActiveDownloads()) {
+            if (this.getEligibleAt(task) <= now) continue;
+
+            this.deferToSchedule(task.id).catch(err =>
+                console.error('Failed to defer download:', err)
+            );
+        }
+
+        const scheduledTasks = this.getAllTasks().filter(task => task.status === DownloadStatus.SCHEDULED);
+        for (const task of scheduledTasks) {
+            // Persisted tasks are not in the queue after a restart
+            const eligibleAt = this.getEligibleAt(task);
+            if (!this.queue.reschedule(task.id, eligibleAt)) {
+                this.queue.add(task.id, task.priority ?? 0, eligibleAt);
+            }
+            this.applySchedule(task, eligibleAt);
+        }
+
+        this.processQueue();
+    }
+
+    /**
+     * Set a timer for the next schedule change: a queued task becoming eligible
+     * or the allowed hours ending while downloads run
+     */
+    private scheduleWakeup(): void {
+        if (this.scheduleTimer) {
+            clearTimeout(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+
+        const times: number[] = [];
+        const nextEligibleAt = this.queue.getNextEligibleAt();
+        if (nextEligibleAt !== null) {
+            times.push(nextEligibleAt);
+        }
+        if (this.config.allowedHours && this.queue.getActiveCount() > 0) {
+            const windowEnd = getWindowEnd(this.config.allowedHours, Date.now());
+            if (windowEnd !== null) times.push(windowEnd);
+        }
+        if (times.length === 0) return;
+
+        const delay = Math.min(Math.max(0, Math.min(...times) - Date.now()), TIMING.SCHEDULE_CHECK_MAX_DELAY_MS);
+        this.scheduleTimer = setTimeout(() => {
+            this.scheduleTimer = null;
+            this.evaluateSchedule();
+        }, delay);
+    }
+
+    /**
+     * Pause a running download whose allowed hours ended until the next window
+     */
+    private async deferToSchedule(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        await this.suspendSession(task);
+        this.queue.complete(taskId);
+        this.enqueue(task);
+        this.persistTask(taskId);
+        this.processQueue();
+    }
+
+    /**
+     * Detach and pause a task's running transfer, keeping its resume data
+     */
+    private async suspendSession(task: DownloadTask): Promise<void> {
+        const session = this.sessions.get(task.id);
+        this.sessions.delete(task.id);
+        if (!session) return;
+
+        try {
+            task.resumeData = await session.pause();
+        } catch (error) {
+            console.error('Failed to pause download:', error);
+        }
+    }
+
+    /**
+     * Check that a started task still holds its slot
+     * Pause, cancel and preemption only stop a running session, so work between
+     * transfers checks this before starting the next one
+     */
+    private isStillDownloading(task: DownloadTask): boolean {
+        return this.tasks.get(task.id) === task &&
+            task.status === DownloadStatus.DOWNLOADING &&
+            this.queue.isActive(task.id);
+    }
+
+    /**
+     * Start downloading a specific task
+     */
+    private async startDownload(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        delete task.scheduledFor;
+
+        try {
+            if (!this.isNetworkAllowed(task)) {
+                await this.waitForNetwork(taskId);
+                return;
+            }
+
+            if (this.exceedsFileSizeLimit(task, task.totalBytes)) {
+                await this.rejectOversized(taskId);
+                return;
+            }
+
+            // Make room within the quota by evicting completed downloads
+            if (!(await this.ensureQuota(task))) {
+                this.handleDownloadError(taskId, {
+                    code: ERROR_CODES.QUOTA_EXCEEDED,
+                    message: `Download does not fit into the ${this.config.maxStorageMB} MB storage quota`,
+                    timestamp: Date.now(),
+                });
+                return;
+            }
+
+            // Check storage space (wait for it instead of failing)
+            const remainingBytes = Math.max(0, task.totalBytes - task.downloadedBytes);
+            const hasSpace = await hasEnoughStorage(remainingBytes, this.config.minFreeSpaceMB * 1024 * 1024);
+            if (!hasSpace) {
+                await this.waitForStorage(taskId);
+                return;
+            }
+
+            // Paused, cancelled or requeued while the checks ran
+            if (this.tasks.get(taskId) !== task || !this.queue.isActive(taskId)) return;
+
+            // Update status
+            this.updateTaskStatus(taskId, DownloadStatus.DOWNLOADING);
+            task.startedAt = Date.now();
+
+            // Start download
+            const result = isStreamingFormat(task.format)
+                ? await this.runMediaDownload(task)
+                : await this.runProgressiveDownload(task);
+
+            // Error responses are not the video, drop whatever was saved
+            const httpErrorCode = result ? classifyHttpStatus(result.status) : null;
+            if (result && httpErrorCode) {
+                await this.storage.deleteFile(result.uri);
+                await this.discardRanges(task);
+                delete task.resumeData;
+                this.handleDownloadError(taskId, {
+                    code: httpErrorCode,
+                    message: `Server responded with HTTP ${result.status}`,
+                    timestamp: Date.now(),
+                    httpStatus: result.status,
+                    responseHeaders: result.headers,
+                });
+                return;
+            }
+
+            if (result) {
+                await this.finishDownload(task, result);
+            }
+        } catch (error: any) {
+            this.handleDownloadError(taskId, {
+                code: this.network.isOnline() ? classifyError(error) : ERROR_CODES.NETWORK_ERROR,
+                message: error.message || 'Download failed',
+                timestamp: Date.now(),
+            });
+        }
+    }
+
+    /**
+     * Verify a downloaded task if it has a checksum, then mark it completed
+     */
+    private async finishDownload(task: DownloadTask, result?: TransportResult): Promise<void> {
+        const taskId = task.id;
+
+        if (task.checksum && !task.media) {
+            const verified = await this.verifyDownload(task, result);
+            if (!verified) return;
+        }
+
+        // Download completed successfully
+        task.completedAt = Date.now();
+        task.progress = 100;
+        if (task.media) task.totalBytes = task.downloadedBytes;
+        delete task.resumeData; // Cleanup resume data
+        delete task.ranges;
+        delete task.effectiveRateLimit;
+        this.taskBandwidth.delete(taskId);
+        this.updateTaskStatus(taskId, DownloadStatus.COMPLETED);
+        this.queue.complete(taskId);
+        this.sessions.delete(taskId);
+
+        this.emit(DownloadEvent.COMPLETED, task);
+        this.checkGroupCompleted(task.groupId);
+
+        // Process next in queue
+        this.processQueue();
+    }
+
+    /**
+     * Check a downloaded file against the task checksum
+     * A mismatch deletes the file and fails the task with CHECKSUM_MISMATCH
+     */
+    private async verifyDownload(task: DownloadTask, result?: TransportResult): Promise<boolean> {
+        // The final response if it covers the whole file, else the preflight (kept across restarts)
+        if (task.checksum === 'server') {
+            const serverChecksum = (result && parseServerChecksum(result.headers, result.status))
+                ?? task.preflight?.checksum;
+            if (!serverChecksum) {
+                console.warn('Server sent no checksum, skipping verification:', task.url);
+                delete task.checksum;
+                return true;
+            }
+            task.checksum = serverChecksum;
+        }
+
+        const expected = task.checksum;
+        if (!expected) return true;
+
+        this.updateTaskStatus(task.id, DownloadStatus.VERIFYING);
+
+        const value = await computeChecksum(task.filePath, expected.algorithm);
+
+        // Cancelled while hashing
+        if (this.tasks.get(task.id) !== task) return false;
+
+        task.hash = { algorithm: expected.algorithm, value };
+        if (value === normalizeChecksum(expected.value)) {
+            return true;
+        }
+
+        await this.storage.deleteFile(task.filePath);
+        await this.discardRanges(task);
+        delete task.resumeData;
+        delete task.hash;
+        task.downloadedBytes = 0;
+        task.progress = 0;
+
+        this.handleDownloadError(task.id, {
+            code: ERROR_CODES.CHECKSUM_MISMATCH,
+            message: `${expected.algorithm} mismatch: expected ${normalizeChecksum(expected.value)}, got ${value}`,
+            timestamp: Date.now(),
+        });
+        return false;
+    }
+
+    /**
+     * Download a single file, split into byte ranges if configured and supported
+     */
+    private async runProgressiveDownload(task: DownloadTask): Promise<TransportResult | undefined> {
+        await this.discardIfChanged(task);
+        if (!this.isStillDownloading(task)) return undefined;
+
+        const segmentCount = task.segmentCount ?? this.config.segmentCount;
+        if (segmentCount > 1 && !task.ranges && !task.resumeData && task.downloadedBytes === 0) {
+            await this.planRanges(task, segmentCount);
+            if (!this.isStillDownloading(task)) return undefined;
+        }
+
+        const ranges = task.ranges;
+        const transport = ranges
+            ? new RangedTransport(this.transport, ranges, () => this.persistTask(task.id))
+            : undefined;
+
+        return this.runAuthorizedSession(task, { url: task.url, filePath: task.filePath, transport });
+    }
+
+    /**
+     * Drop partial data if the file on the server changed since the preflight
+     * Joining bytes of two versions would corrupt the file; an unknown ETag keeps the data
+     */
+    private async discardIfChanged(task: DownloadTask): Promise<void> {
+        const etag = task.preflight?.etag;
+        if (!etag || (!task.ranges && !task.resumeData)) return;
+
+        const current = await this.runPreflight(task);
+        if (!current?.etag || current.etag === etag || !this.isStillDownloading(task)) return;
+
+        await this.discardRanges(task);
+        delete task.resumeData;
+        task.preflight = current;
+        task.totalBytes = current.contentLength ?? 0;
+        task.downloadedBytes = 0;
+        task.progress = 0;
+        this.persistTask(task.id);
+    }
+
+    /**
+     * Split a download into byte ranges
+     * Leaves the task as a single transfer if the server doesn't support ranges
+     * or the file is too small to be worth splitting
+     */
+    private async planRanges(task: DownloadTask, segmentCount: number): Promise<void> {
+        if (!task.preflight) {
+            const preflight = await this.runPreflight(task);
+            if (!this.isStillDownloading(task)) return;
+            task.preflight = preflight;
+        }
+        if (!task.preflight?.acceptRanges || !task.preflight.contentLength) {
+            return;
+        }
+        const totalBytes = task.preflight.contentLength;
+
+        const minRangeBytes = FILE_LIMITS.MIN_RANGE_SIZE_MB * 1024 * 1024;
+        const count = Math.min(segmentCount, Math.floor(totalBytes / minRangeBytes));
+        if (count < 2) return;
+
+        const rangeSize = Math.ceil(totalBytes / count);
+        const ranges: ByteRange[] = [];
+        for (let start = 0; start < totalBytes; start += rangeSize) {
+            ranges.push({
+                start,
+                end: Math.min(start + rangeSize, totalBytes) - 1,
+                chunks: [],
+                downloadedBytes: 0,
+                completed: false,
+            });
+        }
+
+        task.ranges = ranges;
+        task.totalBytes = totalBytes;
+        this.persistTask(task.id);
+    }
+
+    /**
+     * Send a HEAD request through the transport to learn the file name, type and size
+     * Resolves undefined if the server doesn't answer HEAD requests
+     */
+    private async runPreflight(task: DownloadTask): Promise<PreflightInfo | undefined> {
+        const controller = new AbortController();
+        const timer = this.config.timeoutMs > 0
+            ? setTimeout(() => controller.abort(), this.config.timeoutMs)
+            : undefined;
+
+        try {
+            const response = await this.transport.head({
+                url: task.url,
+                headers: await this.getRequestHeaders(task),
+                signal: controller.signal,
+            });
+            if (response.status < 200 || response.status >= 300) return undefined;
+
+            const headers = response.headers;
+            return {
+                contentLength: Number(headers['content-length']) || undefined,
+                contentType: headers['content-type'],
+                fileName: parseContentDisposition(headers['content-disposition']),
+                acceptRanges: headers['accept-ranges']?.toLowerCase() === 'bytes',
+                etag: headers.etag,
+                checksum: parseServerChecksum(headers),
+                checkedAt: Date.now(),
+            };
+        } catch (error) {
+            console.warn('Preflight request failed:', error);
+            return undefined;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Delete the partial files of a ranged download and forget its ranges
+     */
+    private async discardRanges(task: DownloadTask): Promise<void> {
+        if (!task.ranges) return;
+
+        for (const range of task.ranges) {
+            for (const chunk of range.chunks) {
+                await this.storage.deleteFile(chunk);
+            }
+        }
+        delete task.ranges;
+    }
+
+    /**
+     * Run a transfer, refreshing credentials once if the server rejects them
+     */
+    private async runAuthorizedSession(
+        task: DownloadTask,
+        target: TransportTarget,
+        onProgress?: (progress: TransportProgress) => void
+    ): Promise<TransportResult | undefined> {
+        let result = await this.runSession(task, target, await this.getRequestHeaders(task), onProgress);
+        if (result && isAuthFailure(result.status) && this.config.authProvider) {
+            delete task.resumeData;
+            result = await this.runSession(task, target, await this.getRequestHeaders(task, true), onProgress);
+        }
+        return result;
+    }
+
+    /**
+     * Run one transfer session for a task
+     * Resolves undefined if the session was paused or cancelled meanwhile
+     */
+    private async runSession(
+        task: DownloadTask,
+        target: TransportTarget,
+        headers: Record<string, string>,
+        onProgress: (progress: TransportProgress) => void = (progress) => this.handleProgress(task.id, progress)
+    ): Promise<TransportResult | undefined> {
+        // Paused, cancelled or requeued while preparing, or another start of the task is transferring
+        if (!this.isStillDownloading(task) || this.sessions.has(task.id)) {
+            return undefined;
+        }
+
+        // Create download progress callback with throttling
+        const progressCallback = throttle(onProgress, () => this.config.progressUpdateThrottleMs);
+
+        // Fail the transfer if no bytes arrive within timeoutMs
+        const watchdog = createWatchdog(() => this.config.timeoutMs, () => {
+            this.handleStall(task.id, session);
+        });
+        let lastBytesWritten = -1;
+
+        const transport = target.transport ?? this.transport;
+        const session = transport.createSession({
+            url: target.url,
+            filePath: target.filePath,
+            headers,
+            resumeData: task.resumeData,
+            pace: (bytes) => this.paceTransfer(task, bytes),
+            onProgress: (progress) => {
+                if (progress.bytesWritten !== lastBytesWritten) {
+                    lastBytesWritten = progress.bytesWritten;
+                    watchdog.feed();
+                }
+                progressCallback(progress);
+            },
+        });
+        this.sessions.set(task.id, session);
+
+        try {
+            watchdog.feed();
+            const result = await session.start();
+            return this.sessions.get(task.id) === session ? result : undefined;
+        } catch (error) {
+            // Errors from a detached session are the result of pause/cancel/stall
+            if (this.sessions.get(task.id) !== session) return undefined;
+            throw error;
+        } finally {
+            watchdog.stop();
+            if (this.sessions.get(task.id) === session) {
+                this.sessions.delete(task.id);
+            }
+        }
+    }
+
+    /**
+     * Download an HLS or DASH stream
+     * Manifests are fetched once, then resources are downloaded one by one
+     * so pause/resume continues from the first unfinished segment
+     */
+    private async runMediaDownload(task: DownloadTask): Promise<TransportResult | undefined> {
+        if (!task.media) {
+            const failure = task.format === 'dash'
+                ? await this.prepareDashDownload(task)
+                : await this.prepareHlsDownload(task);
+            if (!task.media) return failure;
+            this.persistTask(task.id);
+        }
+
+        const media = task.media;
+        for (const resource of media.resources) {
+            if (resource.completed) continue;
+            if (!this.isStillDownloading(task)) return undefined;
+
+            const result = await this.runAuthorizedSession(
+                task,
+                { url: resource.url, filePath: resource.path },
+                (progress) => this.handleMediaProgress(task, resource, progress)
+            );
+            if (!result || classifyHttpStatus(result.status)) return result;
+
+            const info = await this.storage.getFileInfo(resource.path);
+            resource.completed = true;
+            resource.bytes = info.exists ? info.size : 0;
+            delete task.resumeData;
+
+            this.handleMediaProgress(task);
+            this.persistTask(task.id);
+        }
+
+        return { uri: task.filePath, status: 200, headers: {} };
+    }
+
+    /**
+     * Fetch playlists, pick a variant and write local playlists
+     * Sets task.media on success, otherwise returns the failed response
+     */
+    private async prepareHlsDownload(task: DownloadTask): Promise<TransportResult | undefined> {
+        const directory = this.storage.getTaskStoragePath(task);
+        await ensureDownloadDirectory(directory);
+
+        const source = await this.fetchManifest(task, task.url, `${directory}source.m3u8`);
+        if (source.text === undefined) return source.result;
+
+        let videoUrl = task.url;
+        let videoText = source.text;
+        let audioUrl: string | undefined;
+        let audioText: string | undefined;
+        let masterPlaylist: string | undefined;
+        let bandwidth = 0;
+
+        if (isMasterPlaylist(source.text)) {
+            const { variants, renditions } = parseMasterPlaylist(source.text, task.url);
+            const variant = selectVariant(variants, task.variant);
+            if (!variant) {
+                throw new Error('HLS playlist has no variants');
+            }
+
+            const audio = selectAudioRendition(renditions, variant, task.variant?.language);
+            bandwidth = variant.bandwidth;
+            videoUrl = variant.url;
+
+            const video = await this.fetchManifest(task, variant.url, `${directory}source_video.m3u8`);
+            if (video.text === undefined) return video.result;
+            videoText = video.text;
+
+            if (audio?.url) {
+                const audioSource = await this.fetchManifest(task, audio.url, `${directory}source_audio.m3u8`);
+                if (audioSource.text === undefined) return audioSource.result;
+                audioUrl = audio.url;
+                audioText = audioSource.text;
+            }
+
+            masterPlaylist = buildLocalMasterPlaylist(
+                variant,
+                'video.m3u8',
+                audioText !== undefined ? audio : undefined,
+                'audio.m3u8'
+            );
+        }
+
+        // Rewrite media playlists to local names and collect their resources
+        const playlists: { name: string; local: HlsLocalPlaylist }[] = [];
+        const video = rewriteMediaPlaylist(videoText, videoUrl, 'v');
+        if (masterPlaylist) {
+            playlists.push({ name: 'video.m3u8', local: video });
+            if (audioUrl && audioText !== undefined) {
+                playlists.push({ name: 'audio.m3u8', local: rewriteMediaPlaylist(audioText, audioUrl, 'a') });
+            }
+        }
+
+        await FileSystem.writeAsStringAsync(task.filePath, masterPlaylist ?? video.playlist);
+        for (const { name, local } of playlists) {
+            await FileSystem.writeAsStringAsync(`${directory}${name}`, local.playlist);
+        }
+
+        task.media = {
+            directory,
+            resources: playlists.length > 0
+                ? playlists.flatMap(({ local }) => this.toMediaResources(directory, local.resources))
+                : this.toMediaResources(directory, video.resources),
+            estimatedBytes: Math.round((bandwidth / 8) * video.duration),
+        };
+        task.totalBytes = task.media.estimatedBytes;
+
+        return undefined;
+    }
+
+    /**
+     * Fetch the MPD, pick representations and write the local manifest
+     * Sets task.media on success, otherwise returns the failed response
+     */
+    private async prepareDashDownload(task: DownloadTask): Promise<TransportResult | undefined> {
+        const directory = this.storage.getTaskStoragePath(task);
+        await ensureDownloadDirectory(directory);
+
+        const source = await this.fetchManifest(task, task.url, `${directory}source.mpd`);
+        if (source.text === undefined) return source.result;
+
+        const local = buildLocalDashManifest(source.text, task.url, task.variant);
+        await FileSystem.writeAsStringAsync(task.filePath, local.manifest);
+
+        task.media = {
+            directory,
+            resources: this.toMediaResources(directory, local.resources),
+            estimatedBytes: local.estimatedBytes,
+        };
+        task.totalBytes = task.media.estimatedBytes;
+
+        return undefined;
+    }
+
+    /**
+     * Download a manifest and read it as text
+     * Returns the failed response instead of text on HTTP errors
+     */
+    private async fetchManifest(
+        task: DownloadTask,
+        url: string,
+        filePath: string
+    ): Promise<{ text?: string; result?: TransportResult }> {
+        const result = await this.runAuthorizedSession(task, { url, filePath }, () => { });
+        if (!result || classifyHttpStatus(result.status)) {
+            return { result };
+        }
+
+        const text = await FileSystem.readAsStringAsync(filePath);
+        await this.storage.deleteFile(filePath);
+        return { text };
+    }
+
+    /**
+     * Map manifest resources to persisted media resources
+     */
+    private toMediaResources(directory: string, resources: { url: string; name: string }[]): MediaResource[] {
+        return resources.map(resource => ({
+            url: resource.url,
+            path: `${directory}${resource.name}`,
+            completed: false,
+            bytes: 0,
+        }));
+    }
+
+    /**
+     * Update aggregate progress of a segmented download
+     * @param current - Resource being downloaded and its progress, if any
+     */
+    private handleMediaProgress(
+        task: DownloadTask,
+        current?: MediaResource,
+        progress?: TransportProgress
+    ): void {
+        const media = task.media;
+        if (!media || current?.completed) return;
+
+        const completed = media.resources.filter(resource => resource.completed);
+        const completedBytes = completed.reduce((sum, resource) => sum + resource.bytes, 0);
+        const currentBytes = progress?.bytesWritten ?? 0;
+        const currentFraction = progress && progress.totalBytes > 0
+            ? progress.bytesWritten / progress.totalBytes
+            : 0;
+
+        // Extrapolate the total from finished resources once there are some
+        const estimatedTotal = completed.length > 0
+            ? Math.round((completedBytes / completed.length) * media.resources.length)
+            : media.estimatedBytes;
+
+        task.downloadedBytes = completedBytes + currentBytes;
+        task.totalBytes = Math.max(estimatedTotal, task.downloadedBytes);
+        task.effectiveRateLimit = this.getEffectiveRateLimit(task);
+        this.trackSpeed(task);
+        task.progress = media.resources.length > 0
+            ? Math.min(99, Math.floor(((completed.length + currentFraction) / media.resources.length) * 100))
+            : 0;
+
+        this.emit(DownloadEvent.PROGRESS, task);
+        this.checkpointProgress(task);
+    }
+
+    /**
+     * Wait until the global and per-task bandwidth caps allow more bytes
+     */
+    private async paceTransfer(task: DownloadTask, bytes: number): Promise<void> {
+        let taskLimiter = this.taskBandwidth.get(task.id);
+        if (!taskLimiter && task.maxBytesPerSecond) {
+            taskLimiter = new BandwidthLimiter(task.maxBytesPerSecond);
+            this.taskBandwidth.set(task.id, taskLimiter);
+        }
+
+        await Promise.all([
+            this.bandwidth.consume(bytes),
+            taskLimiter?.consume(bytes),
+        ]);
+    }
+
+    /**
+     * Warn that a bandwidth cap is set on a transport that ignores it
+     */
+    private warnIfLimitIgnored(maxBytesPerSecond: number | undefined): void {
+        if (maxBytesPerSecond && !this.transport.supportsPacing) {
+            console.warn(`The ${this.transport.name} transport can't limit bandwidth, use FetchTransport to enforce the cap`);
+        }
+    }
+
+    /**
+     * Get the rate a task is held to: its own cap or its share of the global cap
+     * None if the transport can't pace transfers
+     */
+    private getEffectiveRateLimit(task: DownloadTask): number | undefined {
+        if (!this.transport.supportsPacing) return undefined;
+
+        const limits: number[] = [];
+        if (task.maxBytesPerSecond) {
+            limits.push(task.maxBytesPerSecond);
+        }
+        if (this.config.maxBytesPerSecond > 0) {
+            const activeCount = Math.max(1, this.getActiveDownloads().length);
+            limits.push(Math.floor(this.config.maxBytesPerSecond / activeCount));
+        }
+        return limits.length > 0 ? Math.min(...limits) : undefined;
+    }
+
+    /**
+     * Update the moving-average speed and ETA of a downloading task
+     */
+    private trackSpeed(task: DownloadTask): void {
+        const tracker = this.speedTrackers.get(task.id);
+        if (!tracker) return;
+
+        tracker.sample(task.downloadedBytes);
+        task.bytesPerSecond = tracker.getBytesPerSecond();
+        task.etaSeconds = calculateETA(task.downloadedBytes, task.totalBytes, task.bytesPerSecond);
+    }
+
+    /**
+     * Save the resumable state of a running download every TIMING.PROGRESS_CHECKPOINT_MS
+     * A single transfer is only checkpointed if its transport can resume it from the partial file
+     */
+    private checkpointProgress(task: DownloadTask): void {
+        const single = !task.ranges && !task.media;
+        if (single && !this.transport.createResumeData) return;
+
+        const now = Date.now();
+        if (now - (this.checkpointTimes.get(task.id) ?? 0) < TIMING.PROGRESS_CHECKPOINT_MS) return;
+
+        if (single) {
+            task.resumeData = this.transport.createResumeData?.(task.downloadedBytes);
+        }
+        this.checkpointTimes.set(task.id, now);
+        this.persistTask(task.id);
+    }
+
+    /**
+     * Stop tracking the speed of a task and add the run to its active time
+     */
+    private stopSpeedTracking(task: DownloadTask): void {
+        const tracker = this.speedTrackers.get(task.id);
+        this.speedTrackers.delete(task.id);
+        if (tracker) {
+            task.activeTimeMs = (task.activeTimeMs ?? 0) + tracker.getElapsedMs();
+        }
+        delete task.bytesPerSecond;
+        delete task.etaSeconds;
+    }
+
+    /**
+     * Handle a transfer that stopped receiving bytes
+     * Pauses it to keep resume data and fails it with TIMEOUT
+     */
+    private async handleStall(taskId: string, session: TransportSession): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task || this.sessions.get(taskId) !== session) return;
+
+        this.sessions.delete(taskId);
+        try {
+            task.resumeData = await session.pause();
+        } catch (error) {
+            console.error('Failed to pause stalled download:', error);
+        }
+
+        this.handleDownloadError(taskId, {
+            code: ERROR_CODES.TIMEOUT,
+            message: `No data received for ${Math.round(this.config.timeoutMs / 1000)}s`,
+            timestamp: Date.now(),
+        });
+    }
+
+    /**
+     * Build request headers for a task, including auth headers if configured
+     */
+    private async getRequestHeaders(
+        task: DownloadTask,
+        forceRefresh: boolean = false
+    ): Promise<Record<string, string>> {
+        const authHeaders = this.config.authProvider
+            ? await this.config.authProvider(task, { forceRefresh })
+            : {};
+
+        // Ranges are only served from the version the preflight saw (weak ETags can't be used)
+        const etag = task.preflight?.etag;
+        const versionHeaders: Record<string, string> = etag && !etag.startsWith('W/')
+            ? { 'If-Range': etag }
+            : {};
+
+        return { ...task.headers, ...versionHeaders, ...authHeaders };
+    }
+
+    /**
+     * Handle download progress
+     */
+    private handleProgress(
+        taskId: string,
+        progress: TransportProgress
+    ): void {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        if (this.sessions.has(taskId) && this.exceedsFileSizeLimit(task, progress.totalBytes)) {
+            this.rejectOversized(taskId);
+            return;
+        }
+
+        task.totalBytes = progress.totalBytes;
+        task.downloadedBytes = progress.bytesWritten;
+        task.effectiveRateLimit = this.getEffectiveRateLimit(task);
+        this.trackSpeed(task);
+        task.progress = progress.totalBytes > 0
+            ? Math.round((progress.bytesWritten / progress.totalBytes) * 100)
+            : 0;
+
+        this.emit(DownloadEvent.PROGRESS, task);
+        this.checkpointProgress(task);
+    }
+
+    /**
+     * Handle download error
+     */
+    private handleDownloadError(taskId: string, error: DownloadError): void {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        const policy = this.getRetryPolicy(task);
+        const attempts = task.retryCount ?? 0;
+
+        task.error = { ...error, retryCount: attempts };
+        this.queue.complete(taskId);
+        this.sessions.delete(taskId);
+
+        if (policy.retryableErrors.includes(error.code) && attempts < policy.maxAttempts) {
+            // Schedule an automatic retry with backoff
+            task.retryCount = attempts + 1;
+            const delay = getRetryDelay(task.retryCount, policy);
+            task.nextRetryAt = Date.now() + delay;
+
+            this.updateTaskStatus(taskId, DownloadStatus.RETRY_PENDING);
+            this.scheduleRetry(taskId, delay);
+        } else {
+            this.updateTaskStatus(taskId, DownloadStatus.FAILED);
+            this.emit(DownloadEvent.ERROR, task, task.error);
+
+            const group = task.groupId ? this.groups.get(task.groupId) : undefined;
+            if (group) {
+                this.emit(DownloadEvent.GROUP_ERROR, group, task, task.error);
+            }
+        }
+
+        // Process next in queue
+        this.processQueue();
+    }
+
+    /**
+     * Resolve the effective retry policy for a task
+     */
+    private getRetryPolicy(task: DownloadTask): RetryPolicy {
+        return {
+            maxAttempts: this.config.maxRetryAttempts,
+            ...DEFAULT_RETRY_POLICY,
+            ...this.config.retryPolicy,
+            ...task.retryPolicy,
+        };
+    }
+
+    /**
+     * Schedule a retry of a RETRY_PENDING task
+     */
+    private scheduleRetry(taskId: string, delayMs: number): void {
+        this.clearRetryTimer(taskId);
+
+        const timer = setTimeout(() => {
+            this.retryTimers.delete(taskId);
+            const task = this.tasks.get(taskId);
+            if (!task || task.status !== DownloadStatus.RETRY_PENDING) return;
+
+            // Wait for the network to come back (see handleNetworkOnline)
+            if (!this.network.isOnline()) return;
+
+            this.resume(taskId).catch(err =>
+                console.error('Failed to retry download:', err)
+            );
+        }, delayMs);
+
+        this.retryTimers.set(taskId, timer);
+    }
+
+    /**
+     * Cancel a scheduled retry
+     */
+    private clearRetryTimer(taskId: string): void {
+        const timer = this.retryTimers.get(taskId);
+        if (timer) {
+            clearTimeout(timer);
+            this.retryTimers.delete(taskId);
+        }
+    }
+
+    /**
+     * Update task status
+     */
+    private updateTaskStatus(taskId: string, newStatus: DownloadStatus): void {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        const oldStatus = task.status;
+        task.status = newStatus;
+
+        // Speed is measured per run, active time adds up across runs
+        if (newStatus === DownloadStatus.DOWNLOADING && oldStatus !== DownloadStatus.DOWNLOADING) {
+            this.speedTrackers.set(taskId, new SpeedTracker(task.downloadedBytes));
+        } else if (oldStatus === DownloadStatus.DOWNLOADING && newStatus !== DownloadStatus.DOWNLOADING) {
+            this.stopSpeedTracking(task);
+            this.checkpointTimes.delete(taskId);
+        }
+
+        this.persistTask(taskId);
+        this.emit(DownloadEvent.STATUS_CHANGE, task, oldStatus);
+    }
+
+    /**
+     * Handle network coming online
+     */
+    private handleNetworkOnline(): void {
+        // Start tasks waiting for this connection type
+        this.handleConnectionChange();
+
+        // Run retries whose timer fired while offline
+        const waitingRetries = this.getAllTasks().filter(
+            task => task.status === DownloadStatus.RETRY_PENDING &&
+                !this.retryTimers.has(task.id)
+        );
+
+        for (const task of waitingRetries) {
+            this.resume(task.id).catch(err =>
+                console.error('Failed to retry download:', err)
+            );
+        }
+
+        if (!this.config.autoRetryOnNetworkRestore) return;
+
+        // Resume paused downloads due to network loss
+        const failedTasks = this.getAllTasks().filter(
+            task => task.status === DownloadStatus.FAILED &&
+                task.error?.code === ERROR_CODES.NETWORK_ERROR
+        );
+
+        for (const task of failedTasks) {
+            this.resume(task.id).catch(err =>
+                console.error('Failed to auto-resume:', err)
+            );
+        }
+    }
+
+    /**
+     * Check if a task may download on the current connection type
+     */
+    private isNetworkAllowed(task: DownloadTask): boolean {
+        const allowed = task.allowedNetworks ?? this.config.allowedNetworks;
+        return allowed.length === 0 || allowed.includes(this.network.getConnectionType());
+    }
+
+    /**
+     * Park a task until the connection type is allowed
+     * A running transfer is paused and keeps its resume data
+     */
+    private async waitForNetwork(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        await this.suspendSession(task);
+
+        const allowed = (task.allowedNetworks ?? this.config.allowedNetworks)
+            .map(type => CONNECTION_TYPE_LABELS[type])
+            .join(' or ');
+        const current = CONNECTION_TYPE_LABELS[this.network.getConnectionType()];
+        task.waitingReason = `Waiting for ${allowed} (current: ${current})`;
+
+        this.queue.complete(taskId);
+        this.updateTaskStatus(taskId, DownloadStatus.WAITING_FOR_NETWORK);
+        this.processQueue();
+    }
+
+    /**
+     * Handle a change of connection type or policy
+     * Parks active downloads that are no longer allowed, starts waiting ones that are
+     */
+    private handleConnectionChange(): void {
+        // Going offline is handled by handleNetworkOffline
+        if (!this.network.isOnline()) return;
+
+        for (const task of this.getActiveDownloads()) {
+            if (this.isNetworkAllowed(task)) continue;
+
+            this.waitForNetwork(task.id).catch(err =>
+                console.error('Failed to pause for network policy:', err)
+            );
+        }
+
+        const waitingTasks = this.getAllTasks().filter(
+            task => task.status === DownloadStatus.WAITING_FOR_NETWORK && this.isNetworkAllowed(task)
+        );
+        for (const task of waitingTasks) {
+            this.resume(task.id).catch(err =>
+                console.error('Failed to resume on allowed network:', err)
+            );
+        }
+    }
+
+    /**
+     * Check a progressive download against the file size limit
+     */
+    private exceedsFileSizeLimit(task: DownloadTask, totalBytes: number): boolean {
+        const maxBytes = this.config.maxFileSizeMB * 1024 * 1024;
+        return maxBytes > 0 && !isStreamingFormat(task.format) && totalBytes > maxBytes;
+    }
+
+    /**
+     * Stop a download that is larger than the file size limit and fail it
+     */
+    private async rejectOversized(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        const session = this.sessions.get(taskId);
+        this.sessions.delete(taskId);
+        if (session) {
+            try {
+                await session.cancel();
+            } catch (error) {
+                console.error('Error stopping oversized download:', error);
+            }
+        }
+
+        await this.storage.deleteFile(task.filePath);
+        await this.discardRanges(task);
+        delete task.resumeData;
+        task.downloadedBytes = 0;
+        task.progress = 0;
+
+        this.handleDownloadError(taskId, {
+            code: ERROR_CODES.FILE_TOO_LARGE,
+            message: `File is larger than ${this.config.maxFileSizeMB} MB`,
+            timestamp: Date.now(),
+        });
+    }
+
+    /**
+     * Free quota space for a task that is about to start
+     * Resolves false if evicting every candidate still wouldn't make it fit
+     */
+    private async ensureQuota(task: DownloadTask): Promise<boolean> {
+        const quotaBytes = this.config.maxStorageMB * 1024 * 1024;
+        if (quotaBytes <= 0) return true;
+
+        const remainingBytes = Math.max(0, task.totalBytes - task.downloadedBytes);
+        const excessBytes = this.storage.getUsedBytes() + remainingBytes - quotaBytes;
+        if (excessBytes <= 0) return true;
+
+        const others = this.getAllTasks().filter(other => other.id !== task.id);
+        const candidates = this.storage.selectForEviction(others, excessBytes, this.config.evictionPolicy);
+        const freeableBytes = candidates.reduce((sum, candidate) => sum + candidate.bytes, 0);
+        if (freeableBytes < excessBytes) return false;
+
+        for (const candidate of candidates) {
+            await this.evict(candidate.task, {
+                policy: this.config.evictionPolicy,
+                freedBytes: candidate.bytes,
+                forTaskId: task.id,
+            });
+        }
+        return true;
+    }
+
+    /**
+     * Delete a completed download to free quota space
+     */
+    private async evict(task: DownloadTask, info: EvictionInfo): Promise<void> {
+        await this.storage.deleteFile(this.storage.getTaskStoragePath(task));
+        await this.storage.deleteMetadata(task.id);
+        this.tasks.delete(task.id);
+        this.removeFromGroup(task);
+
+        this.emit(DownloadEvent.EVICTED, task, info);
+        this.persistTask(task.id);
+    }
+
+    /**
+     * Check if a task was paused until free space is available
+     */
+    private isWaitingForStorage(task: DownloadTask): boolean {
+        return task.status === DownloadStatus.PAUSED &&
+            task.error?.code === ERROR_CODES.INSUFFICIENT_STORAGE;
+    }
+
+    /**
+     * Pause a task until there is enough free space
+     */
+    private async waitForStorage(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) return;
+
+        task.error = {
+            code: ERROR_CODES.INSUFFICIENT_STORAGE,
+            message: 'Waiting for free storage space',
+            timestamp: Date.now(),
+        };
+
+        if (task.status === DownloadStatus.DOWNLOADING && this.sessions.has(taskId)) {
+            await this.pause(taskId);
+            return;
+        }
+
+        // Not transferring yet: give the slot back to the queue
+        this.sessions.delete(taskId);
+        this.queue.complete(taskId);
+        this.updateTaskStatus(taskId, DownloadStatus.PAUSED);
+        this.processQueue();
+    }
+
+    /**
+     * Handle a free space update
+     * Pauses active downloads below the threshold, resumes waiting ones that fit again
+     */
+    private handleFreeSpace(freeBytes: number): void {
+        const reserveBytes = this.config.minFreeSpaceMB * 1024 * 1024;
+
+        if (freeBytes < reserveBytes) {
+            for (const task of this.getActiveDownloads()) {
+                this.waitForStorage(task.id).catch(err =>
+                    console.error('Failed to pause on low storage:', err)
+                );
+            }
+            return;
+        }
+
+        // Margin above the threshold so downloads don't flap between paused and active
+        let availableBytes = freeBytes - reserveBytes - FILE_LIMITS.RESUME_MARGIN_MB * 1024 * 1024;
+        const waitingTasks = this.getAllTasks().filter(task => this.isWaitingForStorage(task));
+
+        for (const task of waitingTasks) {
+            const remainingBytes = Math.max(0, task.totalBytes - task.downloadedBytes);
+            if (availableBytes <= 0 || remainingBytes > availableBytes) continue;
+
+            availableBytes -= remainingBytes;
+            this.resume(task.id).catch(err =>
+                console.error('Failed to resume after storage freed:', err)
+            );
+        }
+    }
+
+    /**
+     * Fail a completed task whose files are missing or have the wrong size
+     * Missing segments of a stream are downloaded again on resume
+     * @returns The error code set on the task, or null if the files are intact
+     */
+    private async checkCompletedFiles(task: DownloadTask): Promise<string | null> {
+        let code: string | null = null;
+
+        if (!(await this.storage.fileExists(task.filePath))) {
+            code = ERROR_CODES.FILE_MISSING;
+            delete task.media;
+        } else if (task.media) {
+            for (const resource of task.media.resources) {
+                if (!(await this.storage.fileExists(resource.path))) {
+                    resource.completed = false;
+                    resource.bytes = 0;
+                    code = ERROR_CODES.FILE_MISSING;
+                }
+            }
+        } else if (!isStreamingFormat(task.format) && task.totalBytes > 0) {
+            if (this.storage.getPathSize(task.filePath) !== task.totalBytes) {
+                code = ERROR_CODES.FILE_SIZE_MISMATCH;
+            }
+        }
+
+        if (!code) return null;
+
+        // Progressive files and incomplete streams without a manifest start over
+        if (!task.media) {
+            await this.storage.deleteFile(this.storage.getTaskStoragePath(task));
+            task.downloadedBytes = 0;
+            task.progress = 0;
+        } else {
+            const resources = task.media.resources;
+            task.downloadedBytes = resources.reduce((sum, resource) => sum + resource.bytes, 0);
+            task.progress = Math.floor(
+                (resources.filter(resource => resource.completed).length / Math.max(1, resources.length)) * 100
+            );
+        }
+        delete task.completedAt;
+        delete task.hash;
+
+        task.error = {
+            code,
+            message: code === ERROR_CODES.FILE_MISSING
+                ? 'Downloaded file was deleted'
+                : 'Downloaded file has the wrong size',
+            timestamp: Date.now(),
+        };
+        this.updateTaskStatus(task.id, DownloadStatus.FAILED);
+        return code;
+    }
+
+    /**
+     * Forget partial data of an unfinished task whose files are gone
+     * @returns true if anything was reset
+     */
+    private async resetMissingPartials(task: DownloadTask): Promise<boolean> {
+        let changed = false;
+
+        if (task.media) {
+            if (!(await this.storage.fileExists(task.filePath))) {
+                // Manifests are gone, prepare the stream again
+                await this.storage.deleteFile(this.storage.getTaskStoragePath(task));
+                delete task.media;
+                delete task.resumeData;
+                changed = true;
+            } else {
+                for (const resource of task.media.resources) {
+                    if (resource.completed && !(await this.storage.fileExists(resource.path))) {
+                        resource.completed = false;
+                        resource.bytes = 0;
+                        changed = true;
+                    }
+                }
+            }
+        } else if (task.ranges) {
+            for (const range of task.ranges) {
+                // Chunks are joined in order, a gap would corrupt the file
+                const missing = [];
+                for (const chunk of range.chunks) {
+                    missing.push(!(await this.storage.fileExists(chunk)));
+                }
+                const lastMissing = missing[missing.length - 1];
+                if (missing.slice(0, -1).some(Boolean) || (lastMissing && range.resumeData)) {
+                    for (const chunk of range.chunks) {
+                        await this.storage.deleteFile(chunk);
+                    }
+                    range.chunks = [];
+                    range.downloadedBytes = 0;
+                    range.completed = false;
+                    delete range.resumeData;
+                    changed = true;
+                }
+            }
+        }
+        // Single-file partials are left to the transport, its resume data may point elsewhere
+
+        if (changed) {
+            task.downloadedBytes = task.media
+                ? task.media.resources.reduce((sum, resource) => sum + resource.bytes, 0)
+                : (task.ranges ?? []).reduce((sum, range) => sum + range.downloadedBytes, 0);
+            task.progress = task.totalBytes > 0
+                ? Math.min(99, Math.floor((task.downloadedBytes / task.totalBytes) * 100))
+                : 0;
+        }
+        return changed;
+    }
+
+    /**
+     * Adopt, delete or keep files in the download directory that belong to no task
+     */
+    private async reconcileOrphanFiles(report: ReconciliationReport): Promise<void> {
+        const owned = new Set<string>();
+        for (const task of this.getAllTasks()) {
+            const paths = [
+                this.storage.getTaskStoragePath(task),
+                ...(task.ranges ?? []).flatMap(range => range.chunks),
+            ];
+            for (const path of paths) {
+                const name = this.storage.getEntryName(path);
+                if (name) owned.add(name);
+            }
+        }
+
+        const policy = this.config.orphanFilePolicy;
+        for (const entry of this.storage.listDownloadDirectory()) {
+            if (owned.has(entry.name)) continue;
+
+            if (policy === 'keep') {
+                report.keptFiles.push(entry.path);
+                continue;
+            }
+
+            const adoptable = policy === 'adopt' && await this.adoptOrphan(entry.name, entry.path, entry.isDirectory);
+            if (adoptable) {
+                report.adoptedFiles.push(entry.path);
+            } else {
+                await this.storage.deleteFile(entry.path);
+                report.deletedFiles.push(entry.path);
+            }
+        }
+    }
+
+    /**
+     * Add a complete orphan file (or stream directory) as a COMPLETED task
+     * @returns false for partial leftovers (range chunks, streams without a manifest)
+     */
+    private async adoptOrphan(name: string, path: string, isDirectory: boolean): Promise<boolean> {
+        let filePath = path;
+        let format: MediaFormat = 'progressive';
+
+        if (isDirectory) {
+            if (await this.storage.fileExists(`${path}index.m3u8`)) {
+                filePath = `${path}index.m3u8`;
+                format = 'hls';
+            } else if (await this.storage.fileExists(`${path}index.mpd`)) {
+                filePath = `${path}index.mpd`;
+                format = 'dash';
+            } else {
+                return false;
+            }
+        } else if (/\.part\d+_\d+$/.test(name)) {
+            return false;
+        }
+
+        const bytes = this.storage.getPathSize(path);
+        const now = Date.now();
+        const task: DownloadTask = {
+            id: generateTaskId(),
+            url: filePath,
+            fileName: name,
+            filePath,
+            status: DownloadStatus.COMPLETED,
+            progress: 100,
+            totalBytes: bytes,
+            downloadedBytes: bytes,
+            createdAt: now,
+            completedAt: now,
+            format,
+            adopted: true,
+        };
+
+        this.tasks.set(task.id, task);
+        this.persistTask(task.id);
+        await this.storage.saveMetadata(task);
+        return true;
+    }
+
+    /**
+     * Handle network going offline
+     */
+    private handleNetworkOffline(): void {
+        // Pause all active downloads
+        const activeDownloads = this.getActiveDownloads();
+        for (const task of activeDownloads) {
+            this.pause(task.id).catch(err =>
+                console.error('Failed to pause on network loss:', err)
+            );
+        }
+    }
+
+    /**
+     * Get the tasks of a group in order
+     */
+    private getGroupTasks(group: DownloadGroup): DownloadTask[] {
+        return group.taskIds
+            .map(taskId => this.tasks.get(taskId))
+            .filter((task): task is DownloadTask => task !== undefined);
+    }
+
+    /**
+     * Add a task to a group (a task already in another group stays there)
+     * @returns The task ID
+     */
+    private addToGroup(task: DownloadTask, group?: DownloadGroup): string {
+        if (group && !task.groupId) {
+            task.groupId = group.id;
+            group.taskIds.push(task.id);
+        }
+        return task.id;
+    }
+
+    /**
+     * Remove a deleted task from its group
+     * An empty group is deleted, one whose remaining tasks are done completes
+     */
+    private removeFromGroup(task: DownloadTask): void {
+        const group = task.groupId ? this.groups.get(task.groupId) : undefined;
+        if (!group) return;
+
+        group.taskIds = group.taskIds.filter(taskId => taskId !== task.id);
+        if (group.taskIds.length === 0) {
+            this.groups.delete(group.id);
+        } else {
+            this.checkGroupCompleted(group.id);
+        }
+        this.persistGroups();
+    }
+
+    /**
+     * Emit GROUP_COMPLETED once every task of a group has completed
+     */
+    private checkGroupCompleted(groupId?: string): void {
+        const group = groupId ? this.groups.get(groupId) : undefined;
+        if (!group) return;
+
+        const tasks = this.getGroupTasks(group);
+        const completed = tasks.length > 0 && tasks.every(task => task.status === DownloadStatus.COMPLETED);
+        if (completed === !!group.completedAt) return;
+
+        if (completed) {
+            group.completedAt = Date.now();
+            this.emit(DownloadEvent.GROUP_COMPLETED, group);
+        } else {
+            delete group.completedAt;
+        }
+        this.persistGroups();
+    }
+
+    /**
+     * Persist the queue order to storage
+     */
+    private async persistQueue(): Promise<void> {
+        await this.storage.saveQueue(this.queue.getQueuedItems());
+    }
+
+    /**
+     * Persist groups to storage
+     */
+    private async persistGroups(): Promise<void> {
+        await this.storage.saveGroups(this.groups);
+    }
+
+    /**
+     * Persist a task, or delete its record once it was removed
+     * (written in the next batch, see StorageManager.saveTask)
+     */
+    private persistTask(taskId: string): void {
+        const task = this.tasks.get(taskId);
+        if (task) {
+            this.storage.saveTask(task);
+        } else {
+            this.storage.deleteTask(taskId);
+        }
+    }
+
+    /**
+     * Clean up resources
+     */
+    public async cleanup(): Promise<void> {
+        // Stop retry timers (pending retries are rescheduled on next initialize)
+        for (const taskId of Array.from(this.retryTimers.keys())) {
+            this.clearRetryTimer(taskId);
+        }
+
         // Pause all active downloads
         const activeDownloads = this.getActiveDownloads();
         for (const task of activeDownloads) {
             await this.pause(task.id);
         }
 
-        // Persist state
-        await this.persistTasks();
+        // Write batched changes
+        await this.storage.flush();
+
+        // Stop schedule checks
+        if (this.scheduleTimer) {
+            clearTimeout(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+        this.appStateSubscription?.remove();
+        this.appStateSubscription = null;
 
-        // Stop network monitoring
+        // Stop network and storage monitoring
         this.network.stopMonitoring();
+        this.storageMonitor.stopMonitoring();
     }
 }
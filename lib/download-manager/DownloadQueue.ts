@@ -8,60 +8,189 @@ import { QueueItem } from './types';
 
 export class DownloadQueue {
     private queue: QueueItem[] = [];
-    private activeDownloads: Set<string> = new Set();
+    private activeDownloads: Map<string, QueueItem> = new Map();
     private maxConcurrent: number;
+    private onChange: () => void;
 
-    constructor(maxConcurrent: number = DEFAULT_CONFIG.maxConcurrentDownloads) {
+    /**
+     * @param onChange - Called after the order of queued tasks changed
+     */
+    constructor(maxConcurrent: number = DEFAULT_CONFIG.maxConcurrentDownloads, onChange: () => void = () => { }) {
         this.maxConcurrent = maxConcurrent;
+        this.onChange = onChange;
     }
 
     /**
      * Add a task to the queue
+     * @param notBefore - Timestamp before which the task is skipped (0 = eligible now)
      */
-    public add(taskId: string, priority: number = 0): void {
+    public add(taskId: string, priority: number = 0, notBefore: number = 0): void {
         const item: QueueItem = {
             taskId,
             priority,
             addedAt: Date.now(),
+            notBefore,
         };
 
-        // Insert based on priority (higher priority first)
-        const insertIndex = this.queue.findIndex(q => q.priority < priority);
-        if (insertIndex === -1) {
-            this.queue.push(item);
-        } else {
-            this.queue.splice(insertIndex, 0, item);
-        }
+        this.insertByPriority(item);
+        this.onChange();
     }
 
     /**
      * Remove a task from the queue
      */
     public remove(taskId: string): void {
+        const wasQueued = this.queue.some(item => item.taskId === taskId);
         this.queue = this.queue.filter(item => item.taskId !== taskId);
         this.activeDownloads.delete(taskId);
+        if (wasQueued) this.onChange();
     }
 
     /**
      * Get next task to download
-     * Returns null if max concurrent limit reached or queue is empty
+     * Skips tasks that aren't eligible yet (see notBefore)
+     * Returns null if max concurrent limit reached or no task is eligible
      */
     public getNext(): string | null {
         if (this.activeDownloads.size >= this.maxConcurrent) {
             return null;
         }
 
-        if (this.queue.length === 0) {
+        const item = this.peekNext();
+        if (!item) {
             return null;
         }
 
-        const item = this.queue.shift();
-        if (item) {
-            this.activeDownloads.add(item.taskId);
-            return item.taskId;
+        this.queue.splice(this.queue.indexOf(item), 1);
+        this.activeDownloads.set(item.taskId, item);
+        this.onChange();
+        return item.taskId;
+    }
+
+    /**
+     * Get the task getNext() would hand out, without taking it
+     */
+    public peekNext(): QueueItem | null {
+        const now = Date.now();
+        return this.queue.find(item => (item.notBefore ?? 0) <= now) ?? null;
+    }
+
+    /**
+     * Change the priority of a queued or active task
+     * A queued task moves in front of every task with a lower priority
+     * Returns false if the task is neither queued nor active
+     */
+    public setPriority(taskId: string, priority: number): boolean {
+        const active = this.activeDownloads.get(taskId);
+        if (active) {
+            active.priority = priority;
+            return true;
         }
 
-        return null;
+        const item = this.queue.find(q => q.taskId === taskId);
+        if (!item) return false;
+
+        this.queue.splice(this.queue.indexOf(item), 1);
+        item.priority = priority;
+        this.insertByPriority(item);
+        this.onChange();
+        return true;
+    }
+
+    /**
+     * Move a queued task to the front
+     * Its priority is raised to the highest queued priority so later adds keep it there
+     * Returns false if the task isn't queued
+     */
+    public moveToFront(taskId: string): boolean {
+        const item = this.queue.find(q => q.taskId === taskId);
+        if (!item) return false;
+
+        this.queue.splice(this.queue.indexOf(item), 1);
+        item.priority = Math.max(item.priority, ...this.queue.map(q => q.priority));
+        this.queue.unshift(item);
+        this.onChange();
+        return true;
+    }
+
+    /**
+     * Move a queued task to the back
+     * Its priority is lowered to the lowest queued priority
+     * Returns false if the task isn't queued
+     */
+    public moveToBack(taskId: string): boolean {
+        const item = this.queue.find(q => q.taskId === taskId);
+        if (!item) return false;
+
+        this.queue.splice(this.queue.indexOf(item), 1);
+        item.priority = Math.min(item.priority, ...this.queue.map(q => q.priority));
+        this.queue.push(item);
+        this.onChange();
+        return true;
+    }
+
+    /**
+     * Put queued tasks in the given order
+     * Listed tasks go first, the rest keep their relative order behind them
+     * Priorities are raised where needed so later adds respect the new order
+     */
+    public reorder(taskIds: string[]): void {
+        const listed = taskIds
+            .map(taskId => this.queue.find(q => q.taskId === taskId))
+            .filter((item): item is QueueItem => item !== undefined);
+        const rest = this.queue.filter(item => !listed.includes(item));
+
+        this.queue = [...listed, ...rest];
+
+        // Keep priorities non-increasing along the queue
+        for (let i = this.queue.length - 2; i >= 0; i--) {
+            this.queue[i].priority = Math.max(this.queue[i].priority, this.queue[i + 1].priority);
+        }
+        this.onChange();
+    }
+
+    /**
+     * Get the priority of a queued or active task
+     */
+    public getPriority(taskId: string): number | undefined {
+        return (this.activeDownloads.get(taskId) ?? this.queue.find(q => q.taskId === taskId))?.priority;
+    }
+
+    /**
+     * Get the active task with the lowest priority
+     */
+    public getLowestActive(): QueueItem | null {
+        let lowest: QueueItem | null = null;
+        for (const item of this.activeDownloads.values()) {
+            if (!lowest || item.priority < lowest.priority) {
+                lowest = item;
+            }
+        }
+        return lowest;
+    }
+
+    /**
+     * Change when a queued task becomes eligible
+     * Returns false if the task isn't queued
+     */
+    public reschedule(taskId: string, notBefore: number): boolean {
+        const item = this.queue.find(q => q.taskId === taskId);
+        if (!item) return false;
+
+        item.notBefore = notBefore;
+        return true;
+    }
+
+    /**
+     * Get when the earliest waiting task becomes eligible
+     * Returns null if no queued task is waiting for its time
+     */
+    public getNextEligibleAt(): number | null {
+        const now = Date.now();
+        const times = this.queue
+            .map(item => item.notBefore ?? 0)
+            .filter(notBefore => notBefore > now);
+        return times.length > 0 ? Math.min(...times) : null;
     }
 
     /**
@@ -92,6 +221,14 @@ export class DownloadQueue {
         return this.queue.length;
     }
 
+    /**
+     * Change how many downloads may run at once
+     * Active downloads above the new limit keep running until completed
+     */
+    public setMaxConcurrent(maxConcurrent: number): void {
+        this.maxConcurrent = maxConcurrent;
+    }
+
     /**
      * Check if there's capacity for more downloads
      */
@@ -105,6 +242,7 @@ export class DownloadQueue {
     public clear(): void {
         this.queue = [];
         this.activeDownloads.clear();
+        this.onChange();
     }
 
     /**
@@ -114,10 +252,37 @@ export class DownloadQueue {
         return this.queue.map(item => item.taskId);
     }
 
+    /**
+     * Get copies of the queued items in order
+     */
+    public getQueuedItems(): QueueItem[] {
+        return this.queue.map(item => ({ ...item }));
+    }
+
+    /**
+     * Replace the queued items (e.g. with ones persisted before a restart)
+     */
+    public restore(items: QueueItem[]): void {
+        this.queue = items.map(item => ({ ...item }));
+        this.onChange();
+    }
+
     /**
      * Get all active task IDs
      */
     public getActiveTaskIds(): string[] {
-        return Array.from(this.activeDownloads);
+        return Array.from(this.activeDownloads.keys());
+    }
+
+    /**
+     * Insert an item before the first item with a lower priority
+     */
+    private insertByPriority(item: QueueItem): void {
+        const insertIndex = this.queue.findIndex(q => q.priority < item.priority);
+        if (insertIndex === -1) {
+            this.queue.push(item);
+        } else {
+            this.queue.splice(insertIndex, 0, item);
+        }
     }
 }
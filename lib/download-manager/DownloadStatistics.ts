@@ -0,0 +1,153 @@
+/**
+ * Download Statistics
+ * Aggregates finished downloads into totals, per-host and per-day counters
+ */
+
+import { STATS_HISTORY_DAYS } from './constants';
+import type { DailyStats, DownloadCounts, DownloadStats, DownloadTask, HostStats, StatsRecord } from './types';
+import { getLocalDateKey, getUrlHost } from './utils';
+
+type OutcomeCounter = 'completedCount' | 'failedCount' | 'cancelledCount';
+
+function createCounts(): DownloadCounts {
+    return { completedCount: 0, failedCount: 0, cancelledCount: 0, totalBytes: 0 };
+}
+
+function createRecord(): StatsRecord {
+    return { since: Date.now(), totals: createCounts(), hosts: {}, days: {} };
+}
+
+export class DownloadStatistics {
+    private record: StatsRecord = createRecord();
+    private onChange: () => void;
+
+    /**
+     * @param onChange - Called after the statistics changed
+     */
+    constructor(onChange: () => void = () => { }) {
+        this.onChange = onChange;
+    }
+
+    /**
+     * Replace the statistics (e.g. with ones persisted before a restart)
+     */
+    public restore(record: StatsRecord): void {
+        this.record = record;
+        this.pruneDays();
+    }
+
+    /**
+     * Count a completed download with its bytes and download time
+     */
+    public recordCompleted(task: DownloadTask): void {
+        this.add(task, 'completedCount', task.downloadedBytes);
+    }
+
+    /**
+     * Count a download that failed for good
+     */
+    public recordFailed(task: DownloadTask): void {
+        this.add(task, 'failedCount');
+    }
+
+    /**
+     * Count a cancelled download
+     */
+    public recordCancelled(task: DownloadTask): void {
+        this.add(task, 'cancelledCount');
+    }
+
+    /**
+     * Get totals, hosts (slowest first, hosts without completed downloads last) and days (oldest first)
+     */
+    public getStats(): DownloadStats {
+        const hosts = Object.entries(this.record.hosts)
+            .map(([host, counts]): HostStats => {
+                const finished = counts.completedCount + counts.failedCount;
+                return {
+                    ...counts,
+                    host,
+                    averageBytesPerSecond: counts.activeTimeMs > 0
+                        ? Math.round((counts.totalBytes / counts.activeTimeMs) * 1000)
+                        : 0,
+                    failureRate: finished > 0 ? counts.failedCount / finished : 0,
+                };
+            })
+            .sort((a, b) => {
+                if (!a.averageBytesPerSecond || !b.averageBytesPerSecond) {
+                    return b.averageBytesPerSecond - a.averageBytesPerSecond;
+                }
+                return a.averageBytesPerSecond - b.averageBytesPerSecond;
+            });
+
+        const days = Object.entries(this.record.days)
+            .map(([date, counts]): DailyStats => ({ ...counts, date }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+
+        return { ...this.record.totals, since: this.record.since, hosts, days };
+    }
+
+    /**
+     * Get the last days up to today, oldest first, including days without activity
+     */
+    public getDailyStats(days: number): DailyStats[] {
+        const result: DailyStats[] = [];
+        const date = new Date();
+        for (let i = 0; i < days; i++) {
+            const key = getLocalDateKey(date.getTime());
+            result.unshift({ ...(this.record.days[key] ?? createCounts()), date: key });
+            date.setDate(date.getDate() - 1);
+        }
+        return result;
+    }
+
+    /**
+     * Get the statistics in their persisted form
+     */
+    public getRecord(): StatsRecord {
+        return this.record;
+    }
+
+    /**
+     * Clear all statistics
+     */
+    public reset(): void {
+        this.record = createRecord();
+        this.onChange();
+    }
+
+    private add(task: DownloadTask, counter: OutcomeCounter, bytes: number = 0): void {
+        const host = getUrlHost(task.url);
+        const day = getLocalDateKey(Date.now());
+        const hostCounts = this.record.hosts[host] ?? { ...createCounts(), activeTimeMs: 0 };
+        const dayCounts = this.record.days[day] ?? createCounts();
+        this.record.hosts[host] = hostCounts;
+        this.record.days[day] = dayCounts;
+
+        for (const counts of [this.record.totals, hostCounts, dayCounts]) {
+            counts[counter]++;
+            counts.totalBytes += bytes;
+        }
+        if (counter === 'completedCount') {
+            hostCounts.activeTimeMs += task.activeTimeMs ?? 0;
+        }
+
+        this.pruneDays();
+        this.onChange();
+    }
+
+    /**
+     * Drop days older than STATS_HISTORY_DAYS
+     */
+    private pruneDays(): void {
+        const oldest = new Date();
+        oldest.setDate(oldest.getDate() - (STATS_HISTORY_DAYS - 1));
+        const oldestKey = getLocalDateKey(oldest.getTime());
+
+        for (const day of Object.keys(this.record.days)) {
+            if (day < oldestKey) {
+                delete this.record.days[day];
+            }
+        }
+    }
+}
@@ -6,11 +6,27 @@
 import EventEmitter from 'eventemitter3';
 import * as Network from 'expo-network';
 import { TIMING } from './constants';
-import { NetworkState } from './types';
+import { ConnectionType, NetworkState } from './types';
+
+/**
+ * Connection types reported by expo-network
+ */
+const CONNECTION_TYPES: Record<Network.NetworkStateType, ConnectionType> = {
+    [Network.NetworkStateType.NONE]: 'none',
+    [Network.NetworkStateType.UNKNOWN]: 'unknown',
+    [Network.NetworkStateType.CELLULAR]: 'cellular',
+    [Network.NetworkStateType.WIFI]: 'wifi',
+    [Network.NetworkStateType.BLUETOOTH]: 'bluetooth',
+    [Network.NetworkStateType.ETHERNET]: 'ethernet',
+    [Network.NetworkStateType.WIMAX]: 'wimax',
+    [Network.NetworkStateType.VPN]: 'vpn',
+    [Network.NetworkStateType.OTHER]: 'other',
+};
 
 export class NetworkMonitor extends EventEmitter {
     private static instance: NetworkMonitor;
     private currentState: NetworkState = NetworkState.UNKNOWN;
+    private connectionType: ConnectionType = 'unknown';
     private checkInterval: any = null;
     private isMonitoring = false;
 
@@ -57,7 +73,8 @@ export class NetworkMonitor extends EventEmitter {
     }
 
     /**
-     * Check current network state
+     * Check current network state and connection type
+     * Emits 'type-change' after the state events so listeners see both up to date
      */
     private async checkNetworkState(): Promise<void> {
         try {
@@ -65,6 +82,10 @@ export class NetworkMonitor extends EventEmitter {
             const newState = networkState.isConnected && networkState.isInternetReachable
                 ? NetworkState.ONLINE
                 : NetworkState.OFFLINE;
+            const newType = networkState.type ? CONNECTION_TYPES[networkState.type] ?? 'unknown' : 'unknown';
+
+            const oldType = this.connectionType;
+            this.connectionType = newType;
 
             if (newState !== this.currentState) {
                 const oldState = this.currentState;
@@ -77,9 +98,14 @@ export class NetworkMonitor extends EventEmitter {
                     this.emit('offline');
                 }
             }
+
+            if (newType !== oldType) {
+                this.emit('type-change', newType, oldType);
+            }
         } catch (error) {
             console.error('Network check failed:', error);
             this.currentState = NetworkState.UNKNOWN;
+            this.connectionType = 'unknown';
         }
     }
 
@@ -90,6 +116,13 @@ export class NetworkMonitor extends EventEmitter {
         return this.currentState;
     }
 
+    /**
+     * Get the type of the current connection
+     */
+    public getConnectionType(): ConnectionType {
+        return this.connectionType;
+    }
+
     /**
      * Check if currently online
      */
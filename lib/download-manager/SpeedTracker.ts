@@ -0,0 +1,64 @@
+/**
+ * Speed Tracker
+ * Moving-average transfer speed over a sliding window of progress samples
+ */
+
+import { TIMING } from './constants';
+
+interface SpeedSample {
+    time: number;
+    bytes: number;
+}
+
+export class SpeedTracker {
+    private samples: SpeedSample[] = [];
+    private windowMs: number;
+    private startedAt: number = Date.now();
+
+    /**
+     * @param bytes - Bytes already downloaded when tracking starts
+     * @param windowMs - How far back samples count towards the average
+     */
+    constructor(bytes: number, windowMs: number = TIMING.SPEED_WINDOW_MS) {
+        this.windowMs = windowMs;
+        this.samples.push({ time: this.startedAt, bytes });
+    }
+
+    /**
+     * Record the downloaded byte count
+     */
+    public sample(bytes: number): void {
+        const now = Date.now();
+
+        // The transfer started over, earlier counts no longer compare
+        const last = this.samples[this.samples.length - 1];
+        if (bytes < last.bytes) {
+            this.samples = [];
+        }
+        this.samples.push({ time: now, bytes });
+
+        // Keep one sample at or before the window start so the average spans the whole window
+        while (this.samples.length > 2 && this.samples[1].time <= now - this.windowMs) {
+            this.samples.shift();
+        }
+    }
+
+    /**
+     * Get the average speed over the window (0 until there are two samples)
+     */
+    public getBytesPerSecond(): number {
+        if (this.samples.length < 2) return 0;
+
+        const first = this.samples[0];
+        const last = this.samples[this.samples.length - 1];
+        const elapsedMs = last.time - first.time;
+        return elapsedMs > 0 ? Math.round(((last.bytes - first.bytes) / elapsedMs) * 1000) : 0;
+    }
+
+    /**
+     * Get how long the tracker has been running
+     */
+    public getElapsedMs(): number {
+        return Date.now() - this.startedAt;
+    }
+}
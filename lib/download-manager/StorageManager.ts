@@ -3,14 +3,71 @@
  * Handles file storage, metadata persistence, and cleanup
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
 import * as FileSystem from 'expo-file-system/legacy';
-import { DOWNLOAD_DIRECTORY, STORAGE_KEYS } from './constants';
-import { DownloadTask, StorageMetadata } from './types';
-import { deleteFile, ensureDownloadDirectory } from './utils';
+import { DOWNLOAD_DIRECTORY, STORAGE_KEYS, TIMING } from './constants';
+import { AsyncStorageAdapter, MIGRATIONS, SCHEMA_VERSION } from './persistence';
+import {
+    DownloadGroup,
+    DownloadTask,
+    EvictionPolicy,
+    PersistedConfig,
+    PersistenceAdapter,
+    QueueItem,
+    StatsRecord,
+    StorageMetadata,
+} from './types';
+import { deleteFile, ensureDownloadDirectory, isStreamingFormat } from './utils';
+
+/**
+ * Top-level entry of the download directory
+ */
+export interface DirectoryEntry {
+    name: string;
+    path: string;                    // Directories end with '/'
+    isDirectory: boolean;
+}
+
+/**
+ * Completed download that may be evicted to stay within the quota
+ */
+export interface EvictionCandidate {
+    task: DownloadTask;
+    bytes: number;                   // Size on disk
+}
+
+/**
+ * Key of the record of one task
+ */
+function getTaskKey(taskId: string): string {
+    return `${STORAGE_KEYS.TASK_PREFIX}${taskId}`;
+}
+
+/**
+ * Key of the metadata of one task
+ */
+function getMetadataKey(taskId: string): string {
+    return `${STORAGE_KEYS.METADATA_PREFIX}${taskId}`;
+}
+
+/**
+ * Check that a persisted task has the fields everything else relies on
+ */
+function isStoredTask(value: unknown): value is DownloadTask {
+    const task = value as Partial<DownloadTask> | null;
+    return typeof task === 'object' && task !== null &&
+        typeof task.id === 'string' &&
+        typeof task.url === 'string' &&
+        typeof task.filePath === 'string' &&
+        typeof task.status === 'string';
+}
 
 export class StorageManager {
     private static instance: StorageManager;
+    private adapter: PersistenceAdapter = new AsyncStorageAdapter();
+    private operations: Promise<void> = Promise.resolve();
+    private dirtyTasks: Map<string, DownloadTask | null> = new Map(); // Task id -> task to write, null to delete
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
     private constructor() { }
 
@@ -25,10 +82,11 @@ export class StorageManager {
     }
 
     /**
-     * Initialize storage (create directories)
+     * Initialize storage (create directories, migrate persisted data)
      */
     public async initialize(): Promise<void> {
         await ensureDownloadDirectory(DOWNLOAD_DIRECTORY);
+        await this.migrate();
     }
 
     /**
@@ -39,88 +97,490 @@ export class StorageManager {
     }
 
     /**
-     * Save task metadata
+     * Get directory for a streaming download (playlists and segments)
      */
-    public async saveMetadata(task: DownloadTask): Promise<void> {
-        try {
-            const metadata: StorageMetadata = {
-                taskId: task.id,
-                filePath: task.filePath,
-                url: task.url,
-                savedAt: Date.now(),
+    public getMediaDirectory(fileName: string): string {
+        const baseName = fileName.replace(/\.[^.]+$/, '');
+        return `${DOWNLOAD_DIRECTORY}${baseName}/`;
+    }
+
+    /**
+     * Get the file or directory a task stores its data in
+     */
+    public getTaskStoragePath(task: DownloadTask): string {
+        if (isStreamingFormat(task.format)) {
+            return task.filePath.substring(0, task.filePath.lastIndexOf('/') + 1);
+        }
+        return task.filePath;
+    }
+
+    /**
+     * Get the size of a file or directory (0 if missing)
+     */
+    public getPathSize(path: string): number {
+        const info = Paths.info(path);
+        if (!info.exists) return 0;
+        return (info.isDirectory ? new Directory(path).size : new File(path).size) ?? 0;
+    }
+
+    /**
+     * Get the name of the top-level download directory entry a path lives in
+     */
+    public getEntryName(path: string): string | undefined {
+        if (!path.startsWith(DOWNLOAD_DIRECTORY)) return undefined;
+        return path.substring(DOWNLOAD_DIRECTORY.length).split('/')[0] || undefined;
+    }
+
+    /**
+     * List the top-level entries of the download directory
+     */
+    public listDownloadDirectory(): DirectoryEntry[] {
+        const directory = new Directory(DOWNLOAD_DIRECTORY);
+        if (!directory.exists) return [];
+
+        return directory.list().map(entry => {
+            const isDirectory = entry instanceof Directory;
+            return {
+                name: entry.name,
+                path: `${DOWNLOAD_DIRECTORY}${entry.name}${isDirectory ? '/' : ''}`,
+                isDirectory,
             };
+        });
+    }
 
-            const existingData = await AsyncStorage.getItem(STORAGE_KEYS.METADATA);
-            const allMetadata: Record<string, StorageMetadata> = existingData
-                ? JSON.parse(existingData)
-                : {};
+    /**
+     * Get the total size of the download directory
+     */
+    public getUsedBytes(): number {
+        return this.getPathSize(DOWNLOAD_DIRECTORY);
+    }
 
-            allMetadata[task.id] = metadata;
-            await AsyncStorage.setItem(STORAGE_KEYS.METADATA, JSON.stringify(allMetadata));
-        } catch (error) {
-            console.error('Failed to save metadata:', error);
+    /**
+     * Pick completed, unpinned downloads to delete until bytesToFree is covered
+     * Returns every candidate (in eviction order) if they don't cover it
+     */
+    public selectForEviction(
+        tasks: DownloadTask[],
+        bytesToFree: number,
+        policy: EvictionPolicy
+    ): EvictionCandidate[] {
+        const candidates: EvictionCandidate[] = tasks
+            .filter(task => task.status === 'completed' && !task.pinned)
+            .map(task => ({ task, bytes: this.getPathSize(this.getTaskStoragePath(task)) }))
+            .filter(candidate => candidate.bytes > 0);
+
+        const lastUsed = (task: DownloadTask) => task.lastAccessedAt ?? task.completedAt ?? task.createdAt;
+        switch (policy) {
+            case 'lru':
+                candidates.sort((a, b) => lastUsed(a.task) - lastUsed(b.task));
+                break;
+            case 'oldest':
+                candidates.sort((a, b) => (a.task.completedAt ?? a.task.createdAt) - (b.task.completedAt ?? b.task.createdAt));
+                break;
+            case 'largest':
+                candidates.sort((a, b) => b.bytes - a.bytes);
+                break;
         }
+
+        const selected: EvictionCandidate[] = [];
+        let freedBytes = 0;
+        for (const candidate of candidates) {
+            if (freedBytes >= bytesToFree) break;
+            selected.push(candidate);
+            freedBytes += candidate.bytes;
+        }
+        return selected;
     }
 
     /**
-     * Get metadata for a task
+     * Find a file name whose path is neither taken nor on disk
+     * Appends a counter before the extension: "name (1).mp4", "name (2).mp4", ...
+     * @param toPath - Maps a file name to the path it would occupy
+     * @param takenPaths - Paths reserved by other tasks
      */
-    public async getMetadata(taskId: string): Promise<StorageMetadata | null> {
-        try {
-            const data = await AsyncStorage.getItem(STORAGE_KEYS.METADATA);
-            if (!data) return null;
+    public getUniqueFileName(
+        fileName: string,
+        toPath: (fileName: string) => string,
+        takenPaths: Set<string>
+    ): string {
+        const isTaken = (name: string) => {
+            const path = toPath(name);
+            return takenPaths.has(path) || Paths.info(path).exists;
+        };
 
-            const allMetadata: Record<string, StorageMetadata> = JSON.parse(data);
-            return allMetadata[taskId] || null;
-        } catch (error) {
-            console.error('Failed to get metadata:', error);
-            return null;
+        if (!isTaken(fileName)) return fileName;
+
+        const extensionIndex = fileName.lastIndexOf('.');
+        const baseName = extensionIndex > 0 ? fileName.substring(0, extensionIndex) : fileName;
+        const extension = extensionIndex > 0 ? fileName.substring(extensionIndex) : '';
+
+        let counter = 1;
+        while (isTaken(`${baseName} (${counter})${extension}`)) {
+            counter++;
         }
+        return `${baseName} (${counter})${extension}`;
+    }
+
+    /**
+     * Use another persistence backend (before initialize)
+     */
+    public setAdapter(adapter: PersistenceAdapter): void {
+        this.adapter = adapter;
+    }
+
+    /**
+     * Get the persistence backend
+     */
+    public getAdapter(): PersistenceAdapter {
+        return this.adapter;
+    }
+
+    /**
+     * Upgrade persisted data to SCHEMA_VERSION
+     * Runs the migrations above the stored version in order, recording the version after each
+     */
+    public async migrate(): Promise<void> {
+        const stored = await this.adapter.getItem(STORAGE_KEYS.SCHEMA_VERSION);
+        let version = stored ? parseInt(stored, 10) : 0;
+        if (Number.isNaN(version)) {
+            console.warn(`Invalid schema version "${stored}", re-running all migrations`);
+            version = 0;
+        }
+
+        if (version > SCHEMA_VERSION) {
+            console.warn(`Persisted data has schema v${version}, newer than the supported v${SCHEMA_VERSION}`);
+            return;
+        }
+
+        for (const migration of MIGRATIONS) {
+            if (migration.version <= version) continue;
+
+            try {
+                await migration.migrate(this.adapter);
+            } catch (error) {
+                throw new Error(
+                    `Migration to schema v${migration.version} (${migration.description}) failed: ` +
+                    (error instanceof Error ? error.message : String(error))
+                );
+            }
+            await this.adapter.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(migration.version));
+        }
+    }
+
+    /**
+     * Save task metadata
+     */
+    public async saveMetadata(task: DownloadTask): Promise<void> {
+        const metadata: StorageMetadata = {
+            taskId: task.id,
+            filePath: task.filePath,
+            url: task.url,
+            savedAt: Date.now(),
+        };
+
+        await this.enqueue(async () => {
+            try {
+                await this.adapter.setItem(getMetadataKey(task.id), JSON.stringify(metadata));
+            } catch (error) {
+                console.error('Failed to save metadata:', error);
+            }
+        });
+    }
+
+    /**
+     * Get metadata for a task
+     */
+    public async getMetadata(taskId: string): Promise<StorageMetadata | null> {
+        return this.enqueue(async () => {
+            try {
+                return await this.readJson<StorageMetadata | null>(getMetadataKey(taskId), null);
+            } catch (error) {
+                console.error('Failed to get metadata:', error);
+                return null;
+            }
+        });
     }
 
     /**
      * Delete metadata for a task
      */
     public async deleteMetadata(taskId: string): Promise<void> {
-        try {
-            const data = await AsyncStorage.getItem(STORAGE_KEYS.METADATA);
-            if (!data) return;
+        await this.enqueue(async () => {
+            try {
+                await this.adapter.removeItem(getMetadataKey(taskId));
+            } catch (error) {
+                console.error('Failed to delete metadata:', error);
+            }
+        });
+    }
 
-            const allMetadata: Record<string, StorageMetadata> = JSON.parse(data);
-            delete allMetadata[taskId];
-            await AsyncStorage.setItem(STORAGE_KEYS.METADATA, JSON.stringify(allMetadata));
-        } catch (error) {
-            console.error('Failed to delete metadata:', error);
-        }
+    /**
+     * Remove metadata entries of tasks that no longer exist
+     * @returns Removed task ids
+     */
+    public async pruneMetadata(taskIds: Set<string>): Promise<string[]> {
+        return this.enqueue(async () => {
+            try {
+                const staleIds = (await this.getKeys(STORAGE_KEYS.METADATA_PREFIX))
+                    .map(key => key.substring(STORAGE_KEYS.METADATA_PREFIX.length))
+                    .filter(taskId => !taskIds.has(taskId));
+
+                for (const taskId of staleIds) {
+                    await this.adapter.removeItem(getMetadataKey(taskId));
+                }
+                return staleIds;
+            } catch (error) {
+                console.error('Failed to prune metadata:', error);
+                return [];
+            }
+        });
     }
 
     /**
-     * Save all tasks to storage for persistence
+     * Schedule saving a task
+     * Changes are batched for TIMING.PERSIST_BATCH_MS, the task is serialized when the batch is written
      */
-    public async saveTasks(tasks: Map<string, DownloadTask>): Promise<void> {
-        try {
-            const tasksArray = Array.from(tasks.values());
-            await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(tasksArray));
-        } catch (error) {
-            console.error('Failed to save tasks:', error);
+    public saveTask(task: DownloadTask): void {
+        this.dirtyTasks.set(task.id, task);
+        this.scheduleFlush();
+    }
+
+    /**
+     * Schedule deleting the record of a removed task
+     */
+    public deleteTask(taskId: string): void {
+        this.dirtyTasks.set(taskId, null);
+        this.scheduleFlush();
+    }
+
+    /**
+     * Write scheduled task changes now and wait for every queued write
+     */
+    public async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
         }
+
+        const tasks = this.dirtyTasks;
+        this.dirtyTasks = new Map();
+        await this.enqueue(() => this.writeTaskRecords(tasks));
     }
 
     /**
-     * Load tasks from storage
+     * Load tasks from storage, oldest first
+     * Unreadable or malformed records are set aside (see setAsideCorrupt) without affecting the others
      */
     public async loadTasks(): Promise<DownloadTask[]> {
-        try {
-            const data = await AsyncStorage.getItem(STORAGE_KEYS.TASKS);
-            if (!data) return [];
+        return this.enqueue(async () => {
+            const tasks: DownloadTask[] = [];
+            try {
+                for (const key of await this.getKeys(STORAGE_KEYS.TASK_PREFIX)) {
+                    const task = await this.readJson<unknown>(key, null);
+                    if (isStoredTask(task)) {
+                        tasks.push(task);
+                        continue;
+                    }
+
+                    if (task !== null) {
+                        console.warn(`Setting aside malformed task record ${key}`);
+                        await this.setAsideCorrupt(key, JSON.stringify(task));
+                    }
+                    await this.adapter.removeItem(key);
+                }
+            } catch (error) {
+                console.error('Failed to load tasks:', error);
+            }
+            return tasks.sort((a, b) => a.createdAt - b.createdAt);
+        });
+    }
+
+    /**
+     * Save all download groups to storage for persistence
+     */
+    public async saveGroups(groups: Map<string, DownloadGroup>): Promise<void> {
+        const data = JSON.stringify(Array.from(groups.values()));
+        await this.enqueue(async () => {
+            try {
+                await this.adapter.setItem(STORAGE_KEYS.GROUPS, data);
+            } catch (error) {
+                console.error('Failed to save groups:', error);
+            }
+        });
+    }
 
-            return JSON.parse(data) as DownloadTask[];
+    /**
+     * Load download groups from storage
+     */
+    public async loadGroups(): Promise<DownloadGroup[]> {
+        return this.enqueue(async () => {
+            try {
+                return await this.readJson<DownloadGroup[]>(STORAGE_KEYS.GROUPS, []);
+            } catch (error) {
+                console.error('Failed to load groups:', error);
+                return [];
+            }
+        });
+    }
+
+    /**
+     * Save the queued items in order
+     */
+    public async saveQueue(items: QueueItem[]): Promise<void> {
+        const data = JSON.stringify(items);
+        await this.enqueue(async () => {
+            try {
+                await this.adapter.setItem(STORAGE_KEYS.QUEUE, data);
+            } catch (error) {
+                console.error('Failed to save queue:', error);
+            }
+        });
+    }
+
+    /**
+     * Load the queued items
+     */
+    public async loadQueue(): Promise<QueueItem[]> {
+        return this.enqueue(async () => {
+            try {
+                return await this.readJson<QueueItem[]>(STORAGE_KEYS.QUEUE, []);
+            } catch (error) {
+                console.error('Failed to load queue:', error);
+                return [];
+            }
+        });
+    }
+
+    /**
+     * Save settings changed at runtime
+     */
+    public async saveConfig(config: PersistedConfig): Promise<void> {
+        const data = JSON.stringify(config);
+        await this.enqueue(async () => {
+            try {
+                await this.adapter.setItem(STORAGE_KEYS.CONFIG, data);
+            } catch (error) {
+                console.error('Failed to save config:', error);
+            }
+        });
+    }
+
+    /**
+     * Load settings changed at runtime
+     */
+    public async loadConfig(): Promise<PersistedConfig> {
+        return this.enqueue(async () => {
+            try {
+                return await this.readJson<PersistedConfig>(STORAGE_KEYS.CONFIG, {});
+            } catch (error) {
+                console.error('Failed to load config:', error);
+                return {};
+            }
+        });
+    }
+
+    /**
+     * Save download statistics
+     */
+    public async saveStats(stats: StatsRecord): Promise<void> {
+        const data = JSON.stringify(stats);
+        await this.enqueue(async () => {
+            try {
+                await this.adapter.setItem(STORAGE_KEYS.STATS, data);
+            } catch (error) {
+                console.error('Failed to save stats:', error);
+            }
+        });
+    }
+
+    /**
+     * Load download statistics (null if none were saved)
+     */
+    public async loadStats(): Promise<StatsRecord | null> {
+        return this.enqueue(async () => {
+            try {
+                return await this.readJson<StatsRecord | null>(STORAGE_KEYS.STATS, null);
+            } catch (error) {
+                console.error('Failed to load stats:', error);
+                return null;
+            }
+        });
+    }
+
+    /**
+     * Run a storage operation after all earlier ones have finished
+     * Every public read and write goes through here, so they never interleave
+     * (operations must not call other public persistence methods, that would deadlock)
+     */
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.operations.then(operation);
+        this.operations = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    /**
+     * Start the timer that writes the batched task changes
+     */
+    private scheduleFlush(): void {
+        if (this.flushTimer) return;
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush();
+        }, TIMING.PERSIST_BATCH_MS);
+    }
+
+    /**
+     * Write the records of changed tasks and delete those of removed ones
+     * Failed writes are retried with the next batch unless the task changed again since
+     */
+    private async writeTaskRecords(tasks: Map<string, DownloadTask | null>): Promise<void> {
+        for (const [taskId, task] of tasks) {
+            try {
+                if (task) {
+                    await this.adapter.setItem(getTaskKey(taskId), JSON.stringify(task));
+                } else {
+                    await this.adapter.removeItem(getTaskKey(taskId));
+                }
+            } catch (error) {
+                console.error(task ? 'Failed to save task:' : 'Failed to delete task:', error);
+                if (!this.dirtyTasks.has(taskId)) this.dirtyTasks.set(taskId, task);
+            }
+        }
+    }
+
+    /**
+     * Get the persisted keys starting with a prefix
+     */
+    private async getKeys(prefix: string): Promise<string[]> {
+        return (await this.adapter.getAllKeys()).filter(key => key.startsWith(prefix));
+    }
+
+    /**
+     * Read and parse a JSON value
+     * Unparseable data is set aside instead of being overwritten later
+     * @param fallback - Returned when the key is missing or unreadable
+     */
+    private async readJson<T>(key: string, fallback: T): Promise<T> {
+        const data = await this.adapter.getItem(key);
+        if (!data) return fallback;
+
+        try {
+            return JSON.parse(data) as T;
         } catch (error) {
-            console.error('Failed to load tasks:', error);
-            return [];
+            console.error(`Persisted data under ${key} is corrupt:`, error);
+            await this.setAsideCorrupt(key, data);
+            return fallback;
         }
     }
 
+    /**
+     * Keep unreadable data for inspection under STORAGE_KEYS.CORRUPT_PREFIX
+     */
+    private async setAsideCorrupt(key: string, data: string): Promise<void> {
+        await this.adapter.setItem(`${STORAGE_KEYS.CORRUPT_PREFIX}${key}:${Date.now()}`, data);
+    }
+
     /**
      * Delete a file
      */
@@ -0,0 +1,77 @@
+/**
+ * Storage Monitor
+ * Periodically checks free disk space while downloads may be writing
+ */
+
+import EventEmitter from 'eventemitter3';
+import * as FileSystem from 'expo-file-system/legacy';
+import { TIMING } from './constants';
+
+export class StorageMonitor extends EventEmitter {
+    private static instance: StorageMonitor;
+    private freeBytes: number | null = null;
+    private checkInterval: any = null;
+    private isMonitoring = false;
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * Get singleton instance
+     */
+    public static getInstance(): StorageMonitor {
+        if (!StorageMonitor.instance) {
+            StorageMonitor.instance = new StorageMonitor();
+        }
+        return StorageMonitor.instance;
+    }
+
+    /**
+     * Start monitoring free space
+     */
+    public async startMonitoring(): Promise<void> {
+        if (this.isMonitoring) return;
+
+        this.isMonitoring = true;
+
+        // Initial check
+        await this.checkFreeSpace();
+
+        // Periodic checks
+        this.checkInterval = setInterval(async () => {
+            await this.checkFreeSpace();
+        }, TIMING.STORAGE_CHECK_INTERVAL_MS);
+    }
+
+    /**
+     * Stop monitoring
+     */
+    public stopMonitoring(): void {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+        this.isMonitoring = false;
+    }
+
+    /**
+     * Check free space and emit it ('update')
+     */
+    private async checkFreeSpace(): Promise<void> {
+        try {
+            this.freeBytes = await FileSystem.getFreeDiskStorageAsync();
+            this.emit('update', this.freeBytes);
+        } catch (error) {
+            console.error('Storage check failed:', error);
+            this.freeBytes = null;
+        }
+    }
+
+    /**
+     * Get free space from the last check (null if unknown)
+     */
+    public getFreeBytes(): number | null {
+        return this.freeBytes;
+    }
+}
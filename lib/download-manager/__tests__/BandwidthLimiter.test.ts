@@ -0,0 +1,76 @@
+import { BandwidthLimiter } from '../BandwidthLimiter';
+
+describe('BandwidthLimiter', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 0 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    /**
+     * Consume bytes and return a mock that is called once the limiter lets them through
+     */
+    function consume(limiter: BandwidthLimiter, bytes: number): jest.Mock {
+        const done = jest.fn();
+        limiter.consume(bytes).then(done);
+        return done;
+    }
+
+    it('lets one second worth of bytes through at once', async () => {
+        const done = consume(new BandwidthLimiter(1000), 1000);
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(done).toHaveBeenCalled();
+    });
+
+    it('makes a consumer wait off its debt', async () => {
+        const done = consume(new BandwidthLimiter(1000), 1500);
+
+        await jest.advanceTimersByTimeAsync(499);
+        expect(done).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(1);
+        expect(done).toHaveBeenCalled();
+    });
+
+    it('shares the rate between consumers', async () => {
+        const limiter = new BandwidthLimiter(1000);
+        const first = consume(limiter, 1000);
+        const second = consume(limiter, 500);
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(first).toHaveBeenCalled();
+        expect(second).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(500);
+        expect(second).toHaveBeenCalled();
+    });
+
+    it('refills at most one second worth of bytes', async () => {
+        const limiter = new BandwidthLimiter(1000);
+        await jest.advanceTimersByTimeAsync(5000);
+
+        const done = consume(limiter, 2000);
+        await jest.advanceTimersByTimeAsync(999);
+        expect(done).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(1);
+        expect(done).toHaveBeenCalled();
+    });
+
+    it('applies a new rate and is unlimited at 0', async () => {
+        const limiter = new BandwidthLimiter();
+        expect(limiter.getRate()).toBe(0);
+
+        const unlimited = consume(limiter, 1e9);
+        await jest.advanceTimersByTimeAsync(0);
+        expect(unlimited).toHaveBeenCalled();
+
+        limiter.setRate(100);
+        expect(limiter.getRate()).toBe(100);
+        const limited = consume(limiter, 200);
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(limited).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(1);
+        expect(limited).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,745 @@
+import { DOWNLOAD_DIRECTORY, ERROR_CODES, STORAGE_KEYS } from '../constants';
+import type { DownloadManager as DownloadManagerType } from '../DownloadManager';
+import type { MemoryAdapter as MemoryAdapterType } from '../persistence';
+import { DownloadEvent, DownloadManagerConfig, DownloadStatus, DownloadTask } from '../types';
+import type { MemoryTransport as MemoryTransportType } from './support/MemoryTransport';
+
+const URL = 'https://example.com/video.mp4';
+const BODY = '0123456789abcdefghij';
+
+let fileSystem: typeof import('./support/fileSystem');
+let transport: MemoryTransportType;
+let adapter: MemoryAdapterType;
+let manager: DownloadManagerType;
+
+/**
+ * Create and initialize a manager (a new singleton for every test) on top of persisted items
+ */
+async function start(
+    config: Partial<DownloadManagerConfig> = {},
+    items: Record<string, string> = {}
+): Promise<DownloadManagerType> {
+    const { DownloadManager } = require('../DownloadManager') as typeof import('../DownloadManager');
+    const { MemoryAdapter } = require('../persistence') as typeof import('../persistence');
+
+    adapter = new MemoryAdapter({ [STORAGE_KEYS.SCHEMA_VERSION]: '2', ...items });
+    manager = DownloadManager.getInstance({ transport, persistence: adapter, preflight: false, ...config });
+    await manager.initialize();
+    return manager;
+}
+
+/**
+ * Resolve with the task of the next event of a kind
+ */
+function next(event: DownloadEvent): Promise<DownloadTask> {
+    return new Promise(resolve => manager.once(event, resolve));
+}
+
+/**
+ * Let pending promises and timers run until a condition holds
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    expect(condition()).toBe(true);
+}
+
+/**
+ * A persisted task record
+ */
+function record(task: Partial<DownloadTask> & Pick<DownloadTask, 'id' | 'status'>): Record<string, string> {
+    const stored: DownloadTask = {
+        url: `https://example.com/${task.id}.mp4`,
+        fileName: `${task.id}.mp4`,
+        filePath: `${DOWNLOAD_DIRECTORY}${task.id}.mp4`,
+        progress: 0,
+        totalBytes: BODY.length,
+        downloadedBytes: 0,
+        createdAt: 1,
+        ...task,
+    };
+    return { [`${STORAGE_KEYS.TASK_PREFIX}${task.id}`]: JSON.stringify(stored) };
+}
+
+beforeEach(() => {
+    jest.resetModules();
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+
+    fileSystem = require('./support/fileSystem');
+    const { MemoryTransport } = require('./support/MemoryTransport') as typeof import('./support/MemoryTransport');
+    transport = new MemoryTransport();
+});
+
+afterEach(async () => {
+    await manager?.cleanup();
+    jest.restoreAllMocks();
+});
+
+describe('DownloadManager with an in-memory transport', () => {
+    it('downloads a file and completes the task', async () => {
+        await start();
+        transport.serve(URL, { body: BODY });
+
+        const completed = next(DownloadEvent.COMPLETED);
+        const taskId = await manager.download(URL);
+        const task = await completed;
+
+        expect(task.id).toBe(taskId);
+        expect(task.status).toBe(DownloadStatus.COMPLETED);
+        expect(task.progress).toBe(100);
+        expect(task.filePath).toBe(`${DOWNLOAD_DIRECTORY}video.mp4`);
+        expect(fileSystem.readFile(task.filePath)).toBe(BODY);
+    });
+
+    it('resumes a paused download from its resume data', async () => {
+        await start();
+        transport.serve(URL, { body: BODY, hold: true }, { body: BODY });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const taskId = await manager.download(URL);
+        await progress;
+        await manager.pause(taskId);
+
+        expect(manager.getTask(taskId)?.status).toBe(DownloadStatus.PAUSED);
+        expect(manager.getTask(taskId)?.resumeData).toBe(String(BODY.length / 2));
+
+        const completed = next(DownloadEvent.COMPLETED);
+        await manager.resume(taskId);
+        const task = await completed;
+
+        expect(transport.requests[1].resumeData).toBe(String(BODY.length / 2));
+        expect(fileSystem.readFile(task.filePath)).toBe(BODY);
+    });
+
+    it('cancels a download and deletes its file and record', async () => {
+        await start();
+        transport.serve(URL, { body: BODY, hold: true });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const taskId = await manager.download(URL);
+        const task = await progress;
+        await manager.cancel(taskId);
+        await manager.cleanup();
+
+        expect(manager.getTask(taskId)).toBeUndefined();
+        expect(fileSystem.readFile(task.filePath)).toBeUndefined();
+        expect(await adapter.getItem(`${STORAGE_KEYS.TASK_PREFIX}${taskId}`)).toBeNull();
+    });
+
+    it('fails on an HTTP error and keeps no partial file', async () => {
+        await start();
+        transport.serve(URL, { status: 404 });
+
+        const failed = next(DownloadEvent.ERROR);
+        await manager.download(URL);
+        const task = await failed;
+
+        expect(task.status).toBe(DownloadStatus.FAILED);
+        expect(task.error?.code).toBe(ERROR_CODES.NOT_FOUND);
+        expect(transport.requests).toHaveLength(1);
+        expect(fileSystem.readFile(task.filePath)).toBeUndefined();
+    });
+});
+
+describe('settings', () => {
+    it('rejects invalid changes and keeps the current settings', async () => {
+        await start();
+        const changed = jest.fn();
+        manager.on(DownloadEvent.CONFIG_CHANGED, changed);
+
+        await expect(manager.updateConfig({ maxConcurrentDownloads: 2, timeoutMs: -1 }))
+            .rejects.toThrow('timeoutMs must be a non-negative number');
+        await expect(manager.updateConfig({ persistence: adapter })).rejects.toThrow('persistence');
+
+        expect(manager.getConfig().maxConcurrentDownloads).toBe(3);
+        expect(await adapter.getItem(STORAGE_KEYS.CONFIG)).toBeNull();
+        expect(changed).not.toHaveBeenCalled();
+    });
+
+    it('saves changes other than the transport for the next launch', async () => {
+        await start();
+
+        await manager.updateConfig({ maxConcurrentDownloads: 1, transport });
+
+        const saved = JSON.parse((await adapter.getItem(STORAGE_KEYS.CONFIG))!);
+        expect(saved).toEqual({ maxConcurrentDownloads: 1 });
+
+        await manager.cleanup();
+        jest.resetModules();
+        await start({}, { [STORAGE_KEYS.CONFIG]: JSON.stringify(saved) });
+        expect(manager.getConfig().maxConcurrentDownloads).toBe(1);
+    });
+
+    it('ignores invalid saved settings', async () => {
+        await start({}, { [STORAGE_KEYS.CONFIG]: JSON.stringify({ maxConcurrentDownloads: 0 }) });
+
+        expect(manager.getConfig().maxConcurrentDownloads).toBe(3);
+    });
+
+    it('refuses to create a manager with invalid settings', async () => {
+        await expect(start({ segmentCount: 0 })).rejects.toThrow('segmentCount must be an integer of at least 1');
+    });
+});
+
+describe('streaming downloads', () => {
+    const PLAYLIST_URL = 'https://example.com/show/index.m3u8';
+    const PLAYLIST = '#EXTM3U\n#EXTINF:4,\nseg0.ts\n#EXTINF:4,\nseg1.ts\n#EXT-X-ENDLIST\n';
+
+    beforeEach(() => {
+        transport.serve(PLAYLIST_URL, { body: PLAYLIST });
+        transport.serve('https://example.com/show/seg0.ts', { body: 'first' });
+        transport.serve('https://example.com/show/seg1.ts', { body: 'second' });
+    });
+
+    it('downloads every segment of an HLS playlist', async () => {
+        await start();
+
+        const completed = next(DownloadEvent.COMPLETED);
+        await manager.download(PLAYLIST_URL);
+        const task = await completed;
+
+        expect(task.media?.resources.map(resource => fileSystem.readFile(resource.path))).toEqual(['first', 'second']);
+        expect(fileSystem.readFile(task.filePath)).toContain('v_seg_00000.ts');
+    });
+
+    it('does not start the next segment after a pause between segments', async () => {
+        await start();
+
+        const paused = new Promise<DownloadTask>(resolve => manager.on(DownloadEvent.PROGRESS, (task) => {
+            if (task.media?.resources[0].completed && task.status === DownloadStatus.DOWNLOADING) {
+                manager.pause(task.id).then(() => resolve(task));
+            }
+        }));
+        await manager.download(PLAYLIST_URL);
+        const task = await paused;
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(task.status).toBe(DownloadStatus.PAUSED);
+        expect(transport.requests.map(request => request.url)).not.toContain('https://example.com/show/seg1.ts');
+    });
+});
+
+describe('groups', () => {
+    const URLS = ['https://example.com/a.mp4', 'https://example.com/b.mp4'];
+
+    it('downloads every file of a group and reports aggregate progress', async () => {
+        await start();
+        URLS.forEach(url => transport.serve(url, { body: BODY }));
+
+        const completed = new Promise(resolve => manager.once(DownloadEvent.GROUP_COMPLETED, resolve));
+        const groupId = await manager.downloadGroup(URLS, { title: 'Season 1' });
+        await completed;
+
+        expect(manager.getGroupProgress(groupId)).toMatchObject({
+            status: 'completed',
+            progress: 100,
+            totalBytes: 2 * BODY.length,
+            downloadedBytes: 2 * BODY.length,
+            completedCount: 2,
+            failedCount: 0,
+        });
+        expect(manager.getGroup(groupId)?.completedAt).toBeDefined();
+    });
+
+    it('pauses and resumes every task of a group', async () => {
+        await start({ maxConcurrentDownloads: 1 });
+        transport.serve(URLS[0], { body: BODY, hold: true }, { body: BODY });
+        transport.serve(URLS[1], { body: BODY });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const groupId = await manager.downloadGroup(URLS, { title: 'Season 1' });
+        await progress;
+        await manager.pauseGroup(groupId);
+
+        const paused = manager.getGroupProgress(groupId)!;
+        expect(paused.status).toBe('paused');
+        expect(paused.tasks.map(task => task.status)).toEqual([DownloadStatus.PAUSED, DownloadStatus.PAUSED]);
+        expect(transport.requests).toHaveLength(1);
+
+        const completed = new Promise(resolve => manager.once(DownloadEvent.GROUP_COMPLETED, resolve));
+        await manager.resumeGroup(groupId);
+        await completed;
+
+        expect(manager.getGroupProgress(groupId)?.status).toBe('completed');
+    });
+
+    it('cancels every task of a group and forgets the group', async () => {
+        await start();
+        URLS.forEach(url => transport.serve(url, { body: BODY, hold: true }));
+
+        const groupId = await manager.downloadGroup(URLS, { title: 'Season 1' });
+        const taskIds = [...manager.getGroup(groupId)!.taskIds];
+        await manager.cancelGroup(groupId);
+
+        expect(manager.getGroup(groupId)).toBeUndefined();
+        expect(taskIds.map(taskId => manager.getTask(taskId))).toEqual([undefined, undefined]);
+    });
+
+    it('creates no tasks when one of the URLs is invalid', async () => {
+        await start();
+
+        await expect(manager.downloadGroup([URLS[0], 'not a url'], { title: 'Season 1' })).rejects.toThrow(ERROR_CODES.INVALID_URL);
+
+        expect(manager.getAllGroups()).toEqual([]);
+        expect(manager.getAllTasks()).toEqual([]);
+    });
+});
+
+describe('queue order', () => {
+    const OTHER_URL = 'https://example.com/other.mp4';
+
+    it('starts promoted tasks first without stopping running ones', async () => {
+        await start({ maxConcurrentDownloads: 1 });
+        transport.serve(URL, { body: BODY, hold: true });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const running = await manager.download(URL);
+        await progress;
+        const first = await manager.download(OTHER_URL);
+        const second = await manager.download('https://example.com/third.mp4');
+
+        await manager.moveToFront(second);
+        expect(manager.getQueue()).toEqual([second, first]);
+
+        await manager.setPriority(first, 10);
+        expect(manager.getQueue()).toEqual([first, second]);
+        expect(manager.getTask(running)?.status).toBe(DownloadStatus.DOWNLOADING);
+    });
+
+    it('pauses a lower-priority download for a promoted task and resumes it afterwards', async () => {
+        await start({ maxConcurrentDownloads: 1, preemptLowerPriority: true });
+        transport.serve(URL, { body: BODY, hold: true }, { body: BODY });
+        transport.serve(OTHER_URL, { body: BODY });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const low = await manager.download(URL);
+        await progress;
+        const high = await manager.download(OTHER_URL);
+        await manager.setPriority(high, 10);
+
+        expect(manager.getTask(low)).toMatchObject({ status: DownloadStatus.PENDING, resumeData: String(BODY.length / 2) });
+
+        await waitFor(() => manager.getTask(low)?.status === DownloadStatus.COMPLETED);
+        expect(transport.requests.map(request => request.url)).toEqual([URL, OTHER_URL, URL]);
+        expect(transport.requests[2].resumeData).toBe(String(BODY.length / 2));
+        expect(manager.getTask(high)?.status).toBe(DownloadStatus.COMPLETED);
+    });
+});
+
+describe('retry', () => {
+    const retryPolicy = { baseDelayMs: 10, maxDelayMs: 10, jitter: 0 };
+
+    it('retries a server error and completes', async () => {
+        await start({ maxRetryAttempts: 2, retryPolicy });
+        transport.serve(URL, { status: 503 }, { body: BODY });
+
+        const completed = next(DownloadEvent.COMPLETED);
+        await manager.download(URL);
+        const task = await completed;
+
+        expect(task.retryCount).toBe(1);
+        expect(transport.requests).toHaveLength(2);
+        expect(fileSystem.readFile(task.filePath)).toBe(BODY);
+    });
+
+    it('fails once the retries are used up', async () => {
+        await start({ maxRetryAttempts: 1, retryPolicy });
+        transport.serve(URL, { error: 'Network request failed' });
+
+        const failed = next(DownloadEvent.ERROR);
+        await manager.download(URL);
+        const task = await failed;
+
+        expect(task.status).toBe(DownloadStatus.FAILED);
+        expect(task.error?.code).toBe(ERROR_CODES.NETWORK_ERROR);
+        expect(transport.requests).toHaveLength(2);
+    });
+
+    it('does not retry errors outside retryableErrors', async () => {
+        await start({ maxRetryAttempts: 3, retryPolicy });
+        transport.serve(URL, { status: 404 });
+
+        const failed = next(DownloadEvent.ERROR);
+        await manager.download(URL);
+        const task = await failed;
+
+        expect(task.retryCount ?? 0).toBe(0);
+        expect(transport.requests).toHaveLength(1);
+    });
+});
+
+describe('byte ranges', () => {
+    it('does not start a task paused while its ranges are planned', async () => {
+        let release!: () => void;
+        transport.serveHead(URL, {
+            headers: { 'accept-ranges': 'bytes', 'content-length': String(BODY.length) },
+            until: new Promise(resolve => { release = resolve; }),
+        });
+        transport.serve(URL, { body: BODY });
+        await start({ segmentCount: 2 });
+
+        const taskId = await manager.download(URL);
+        await waitFor(() => transport.headRequests.length === 1);
+        await manager.pause(taskId);
+        release();
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(manager.getTask(taskId)?.status).toBe(DownloadStatus.PAUSED);
+        expect(manager.getTask(taskId)?.preflight).toBeUndefined();
+        expect(transport.requests).toHaveLength(0);
+    });
+});
+
+describe('checksums', () => {
+    const md5 = (data: string, encoding: 'hex' | 'base64' = 'hex') =>
+        require('crypto').createHash('md5').update(data).digest(encoding) as string;
+
+    it('verifies the file and keeps its hash', async () => {
+        await start();
+        transport.serve(URL, { body: BODY });
+
+        const completed = next(DownloadEvent.COMPLETED);
+        await manager.download(URL, { checksum: { algorithm: 'md5', value: md5(BODY) } });
+        const task = await completed;
+
+        expect(task.hash).toEqual({ algorithm: 'md5', value: md5(BODY) });
+        expect(await manager.verify(task.id)).toBe(true);
+    });
+
+    it('deletes the file and fails the task on a mismatch', async () => {
+        await start();
+        transport.serve(URL, { body: BODY });
+
+        const failed = next(DownloadEvent.ERROR);
+        await manager.download(URL, { checksum: { algorithm: 'md5', value: md5('other') } });
+        const task = await failed;
+
+        expect(task.error?.code).toBe(ERROR_CODES.CHECKSUM_MISMATCH);
+        expect(fileSystem.readFile(task.filePath)).toBeUndefined();
+    });
+
+    it('takes the server checksum from the HEAD request, not from a 206 of the resumed part', async () => {
+        transport.serveHead(URL, { headers: { 'content-md5': md5(BODY, 'base64') } });
+        await start();
+        const rest = BODY.substring(BODY.length / 2);
+        transport.serve(URL, { body: BODY, hold: true }, {
+            body: BODY,
+            status: 206,
+            headers: { 'content-md5': md5(rest, 'base64') },
+        });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const taskId = await manager.download(URL, { checksum: 'server' });
+        await progress;
+        await manager.pause(taskId);
+
+        const completed = next(DownloadEvent.COMPLETED);
+        await manager.resume(taskId);
+        const task = await completed;
+
+        expect(transport.headRequests).toHaveLength(1);
+        expect(task.hash?.value).toBe(md5(BODY));
+    });
+
+    it('finishes a verification cut off by an app restart with the preflight checksum', async () => {
+        fileSystem.writeFile(`${DOWNLOAD_DIRECTORY}checked.mp4`, BODY);
+        await start({}, record({
+            id: 'checked',
+            status: DownloadStatus.VERIFYING,
+            checksum: 'server',
+            preflight: { acceptRanges: false, checksum: { algorithm: 'md5', value: md5(BODY) }, checkedAt: 1 },
+        }));
+
+        await waitFor(() => manager.getTask('checked')?.status === DownloadStatus.COMPLETED);
+        expect(manager.getTask('checked')?.hash?.value).toBe(md5(BODY));
+    });
+});
+
+describe('preflight', () => {
+    it('names and sizes the task from the HEAD response', async () => {
+        transport.serveHead(URL, {
+            headers: {
+                'content-length': String(BODY.length),
+                'content-type': 'video/mp4',
+                'content-disposition': 'attachment; filename="clip.mp4"',
+                'etag': '"v1"',
+            },
+        });
+        await start({ preflight: true });
+
+        const taskId = await manager.download(URL);
+        const task = manager.getTask(taskId)!;
+
+        expect(transport.headRequests.map(request => request.url)).toEqual([URL]);
+        expect(task.fileName).toBe('clip.mp4');
+        expect(task.totalBytes).toBe(BODY.length);
+        expect(task.preflight?.etag).toBe('"v1"');
+    });
+
+    it('is skipped when the idempotency key matches an existing task', async () => {
+        transport.serveHead(URL, {});
+        await start({ preflight: true });
+
+        const first = await manager.download(URL, { idempotencyKey: 'key' });
+        const second = await manager.download(URL, { idempotencyKey: 'key' });
+
+        expect(second).toBe(first);
+        expect(transport.headRequests).toHaveLength(1);
+    });
+
+    it('restarts instead of resuming when the ETag changed', async () => {
+        transport.serveHead(URL, { headers: { 'etag': '"v1"' } });
+        await start({ preflight: true });
+        const updated = BODY.toUpperCase();
+        transport.serve(URL, { body: BODY, hold: true }, { body: updated });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const taskId = await manager.download(URL);
+        await progress;
+        await manager.pause(taskId);
+
+        transport.serveHead(URL, { headers: { 'etag': '"v2"' } });
+        const completed = next(DownloadEvent.COMPLETED);
+        await manager.resume(taskId);
+        const task = await completed;
+
+        expect(transport.requests[0].headers?.['If-Range']).toBe('"v1"');
+        expect(transport.requests[1].resumeData).toBeUndefined();
+        expect(task.preflight?.etag).toBe('"v2"');
+        expect(fileSystem.readFile(task.filePath)).toBe(updated);
+    });
+
+    describe('before resuming', () => {
+        let release: () => void;
+        let taskId: string;
+
+        beforeEach(async () => {
+            transport.serveHead(URL, { headers: { 'etag': '"v1"' } });
+            await start({ preflight: true });
+            transport.serve(URL, { body: BODY, hold: true }, { body: BODY });
+
+            const progress = next(DownloadEvent.PROGRESS);
+            taskId = await manager.download(URL);
+            await progress;
+            await manager.pause(taskId);
+
+            transport.serveHead(URL, {
+                headers: { 'etag': '"v2"' },
+                until: new Promise(resolve => { release = resolve; }),
+            });
+            await manager.resume(taskId);
+            await waitFor(() => transport.headRequests.length === 2);
+        });
+
+        it('stays paused when paused during the HEAD request', async () => {
+            await manager.pause(taskId);
+            release();
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            const task = manager.getTask(taskId)!;
+            expect(task.status).toBe(DownloadStatus.PAUSED);
+            expect(task.resumeData).toBe(String(BODY.length / 2));
+            expect(transport.requests).toHaveLength(1);
+        });
+
+        it('does not download a task cancelled during the HEAD request', async () => {
+            const completed = jest.fn();
+            manager.on(DownloadEvent.COMPLETED, completed);
+
+            await manager.cancel(taskId);
+            release();
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            expect(manager.getTask(taskId)).toBeUndefined();
+            expect(transport.requests).toHaveLength(1);
+            expect(completed).not.toHaveBeenCalled();
+        });
+    });
+});
+
+describe('storage', () => {
+    it('waits for storage when free space cannot be read, then resumes on the next reading', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        await start();
+        transport.serve(URL, { body: BODY });
+        jest.spyOn(fileSystem, 'getFreeDiskStorageAsync').mockRejectedValueOnce(new Error('Unavailable'));
+
+        const taskId = await manager.download(URL);
+        await waitFor(() => manager.getTask(taskId)?.status === DownloadStatus.PAUSED);
+
+        expect(manager.getTask(taskId)?.error?.code).toBe(ERROR_CODES.INSUFFICIENT_STORAGE);
+        expect(transport.requests).toHaveLength(0);
+
+        const completed = next(DownloadEvent.COMPLETED);
+        const { StorageMonitor } = require('../StorageMonitor') as typeof import('../StorageMonitor');
+        StorageMonitor.getInstance().emit('update', 10 * 1024 * 1024 * 1024);
+        await completed;
+    });
+});
+
+describe('scheduling', () => {
+    it('holds a task until its start time', async () => {
+        await start();
+        transport.serve(URL, { body: BODY });
+
+        const completed = next(DownloadEvent.COMPLETED);
+        const startAt = Date.now() + 50;
+        const taskId = await manager.download(URL, { startAt });
+
+        expect(manager.getTask(taskId)).toMatchObject({ status: DownloadStatus.SCHEDULED, scheduledFor: startAt });
+        expect(transport.requests).toHaveLength(0);
+
+        await completed;
+        expect(Date.now()).toBeGreaterThanOrEqual(startAt);
+    });
+
+    it('schedules tasks outside the allowed hours for the next window', async () => {
+        const now = new Date();
+        const opens = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+        const time = (date: Date) => `${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
+        await start({ allowedHours: { start: time(opens), end: time(new Date(opens.getTime() + 60 * 60 * 1000)) } });
+
+        const taskId = await manager.download(URL);
+
+        const task = manager.getTask(taskId)!;
+        expect(task.status).toBe(DownloadStatus.SCHEDULED);
+        expect(task.scheduledFor! - now.getTime()).toBeGreaterThan(60 * 60 * 1000);
+        expect(transport.requests).toHaveLength(0);
+    });
+});
+
+describe('statistics', () => {
+    it('counts finished downloads and keeps the counts across launches', async () => {
+        await start();
+        transport.serve(URL, { body: BODY });
+
+        const completed = next(DownloadEvent.COMPLETED);
+        await manager.download(URL);
+        await completed;
+        expect(manager.getStats()).toMatchObject({ completedCount: 1, totalBytes: BODY.length });
+        expect(manager.getStats().hosts.map(host => host.host)).toEqual(['example.com']);
+
+        await manager.cleanup();
+        const stats = (await adapter.getItem(STORAGE_KEYS.STATS))!;
+        jest.resetModules();
+        await start({}, { [STORAGE_KEYS.STATS]: stats });
+
+        expect(manager.getStats()).toMatchObject({ completedCount: 1, totalBytes: BODY.length });
+    });
+});
+
+describe('interrupted downloads', () => {
+    const taskUrl = 'https://example.com/a.mp4';
+
+    it('checkpoints a single transfer with a resume token when the transport can resume from the file', async () => {
+        transport.createResumeData = bytesWritten => String(bytesWritten);
+        await start();
+        transport.serve(URL, { body: BODY, hold: true });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        const taskId = await manager.download(URL);
+        await progress;
+        const { StorageManager } = require('../StorageManager') as typeof import('../StorageManager');
+        await StorageManager.getInstance().flush();
+
+        expect(JSON.parse((await adapter.getItem(`${STORAGE_KEYS.TASK_PREFIX}${taskId}`))!)).toMatchObject({
+            status: DownloadStatus.DOWNLOADING,
+            downloadedBytes: BODY.length / 2,
+            resumeData: String(BODY.length / 2),
+        });
+    });
+
+    it('continues a checkpointed single transfer after a restart', async () => {
+        fileSystem.writeFile(`${DOWNLOAD_DIRECTORY}a.mp4`, BODY.substring(0, 10));
+        transport.serve(taskUrl, { body: BODY });
+
+        const resumed = record({ id: 'a', status: DownloadStatus.DOWNLOADING, downloadedBytes: 10, progress: 50, resumeData: '10' });
+        await start({ autoResumeInterrupted: true }, resumed);
+        expect(manager.getTask('a')?.downloadedBytes).toBe(10);
+
+        await waitFor(() => manager.getTask('a')?.status === DownloadStatus.COMPLETED);
+        expect(transport.requests[0].resumeData).toBe('10');
+        expect(fileSystem.readFile(`${DOWNLOAD_DIRECTORY}a.mp4`)).toBe(BODY);
+    });
+
+    it('restarts an interrupted single transfer that has no resume data', async () => {
+        fileSystem.writeFile(`${DOWNLOAD_DIRECTORY}a.mp4`, BODY.substring(0, 10));
+        transport.serve(taskUrl, { body: BODY });
+
+        await start({}, record({ id: 'a', status: DownloadStatus.DOWNLOADING, downloadedBytes: 10, progress: 50 }));
+
+        expect(manager.getTask('a')).toMatchObject({ status: DownloadStatus.PAUSED, downloadedBytes: 0, progress: 0 });
+    });
+});
+
+describe('reconciliation', () => {
+    it('fails completed tasks whose file is missing', async () => {
+        await start({}, record({ id: 'gone', status: DownloadStatus.COMPLETED, progress: 100 }));
+
+        const task = manager.getTask('gone')!;
+        expect(task.status).toBe(DownloadStatus.FAILED);
+        expect(task.error?.code).toBe(ERROR_CODES.FILE_MISSING);
+        expect(manager.getReconciliationReport()?.missingFiles).toEqual(['gone']);
+    });
+
+    it('fails completed tasks whose file has the wrong size', async () => {
+        fileSystem.writeFile(`${DOWNLOAD_DIRECTORY}short.mp4`, BODY.substring(1));
+        await start({}, record({ id: 'short', status: DownloadStatus.COMPLETED, progress: 100 }));
+
+        expect(manager.getTask('short')?.error?.code).toBe(ERROR_CODES.FILE_SIZE_MISMATCH);
+        expect(fileSystem.readFile(`${DOWNLOAD_DIRECTORY}short.mp4`)).toBeUndefined();
+    });
+
+    it('adopts orphan files as completed downloads', async () => {
+        fileSystem.writeFile(`${DOWNLOAD_DIRECTORY}orphan.mp4`, BODY);
+        await start({ orphanFilePolicy: 'adopt' });
+
+        const [task] = manager.getAllTasks();
+        expect(manager.getReconciliationReport()?.adoptedFiles).toEqual([`${DOWNLOAD_DIRECTORY}orphan.mp4`]);
+        expect(task).toMatchObject({ status: DownloadStatus.COMPLETED, adopted: true, totalBytes: BODY.length });
+    });
+
+    it('deletes orphan files when told to', async () => {
+        fileSystem.writeFile(`${DOWNLOAD_DIRECTORY}orphan.mp4`, BODY);
+        await start({ orphanFilePolicy: 'delete' });
+
+        expect(manager.getAllTasks()).toEqual([]);
+        expect(fileSystem.readFile(`${DOWNLOAD_DIRECTORY}orphan.mp4`)).toBeUndefined();
+    });
+});
+
+describe('bandwidth limits', () => {
+    it('reports the share of the global cap as the effective limit', async () => {
+        await start({ maxBytesPerSecond: 1024 * 1024 });
+        transport.serve(URL, { body: BODY });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        await manager.download(URL);
+
+        expect((await progress).effectiveRateLimit).toBe(1024 * 1024);
+    });
+
+    it('reports no limit and warns when the transport cannot pace', async () => {
+        transport.supportsPacing = false;
+        await start();
+        transport.serve(URL, { body: BODY });
+
+        const progress = next(DownloadEvent.PROGRESS);
+        await manager.download(URL, { maxBytesPerSecond: 1000 });
+
+        expect((await progress).effectiveRateLimit).toBeUndefined();
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('memory transport'));
+    });
+});
+
+describe('connection policies', () => {
+    it('skips the preflight on a connection the task may not use', async () => {
+        transport.serveHead(URL, {});
+        await start({ preflight: true, allowedNetworks: ['cellular'] });
+
+        await manager.download(URL);
+
+        expect(transport.headRequests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,72 @@
+import { DownloadQueue } from '../DownloadQueue';
+
+/**
+ * Queue with the given tasks added in order, as [taskId, priority]
+ */
+function createQueue(...items: [string, number][]): DownloadQueue {
+    const queue = new DownloadQueue(1);
+    items.forEach(([taskId, priority]) => queue.add(taskId, priority));
+    return queue;
+}
+
+describe('DownloadQueue', () => {
+    it('orders tasks by priority, then by when they were added', () => {
+        const queue = createQueue(['a', 0], ['b', 5], ['c', 0], ['d', 5]);
+
+        expect(queue.getQueuedTaskIds()).toEqual(['b', 'd', 'a', 'c']);
+    });
+
+    it('moves a task ahead of lower priorities when its priority changes', () => {
+        const queue = createQueue(['a', 5], ['b', 0], ['c', 0]);
+
+        expect(queue.setPriority('c', 5)).toBe(true);
+        expect(queue.getQueuedTaskIds()).toEqual(['a', 'c', 'b']);
+        expect(queue.setPriority('missing', 1)).toBe(false);
+    });
+
+    it('keeps a task moved to the front ahead of later adds', () => {
+        const queue = createQueue(['a', 5], ['b', 0]);
+        const onChange = jest.fn();
+
+        expect(queue.moveToFront('b')).toBe(true);
+        queue.add('c', 5);
+
+        expect(queue.getQueuedTaskIds()).toEqual(['b', 'a', 'c']);
+        expect(queue.getPriority('b')).toBe(5);
+        expect(new DownloadQueue(1, onChange).moveToFront('missing')).toBe(false);
+        expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('reorders the listed tasks first and raises priorities to match', () => {
+        const queue = createQueue(['a', 5], ['b', 3], ['c', 0], ['d', 0]);
+
+        queue.reorder(['d', 'missing', 'b']);
+
+        expect(queue.getQueuedTaskIds()).toEqual(['d', 'b', 'a', 'c']);
+        expect(['d', 'b', 'a', 'c'].map(taskId => queue.getPriority(taskId))).toEqual([5, 5, 5, 0]);
+    });
+
+    it('skips tasks that are not eligible yet', () => {
+        const queue = new DownloadQueue(2);
+        const later = Date.now() + 60000;
+        queue.add('a', 0, later);
+        queue.add('b');
+
+        expect(queue.getNext()).toBe('b');
+        expect(queue.getNext()).toBeNull();
+        expect(queue.getNextEligibleAt()).toBe(later);
+    });
+
+    it('hands out tasks up to the concurrency limit and finds the lowest active priority', () => {
+        const queue = new DownloadQueue(2);
+        queue.add('a', 1);
+        queue.add('b', 3);
+        queue.add('c', 2);
+
+        expect([queue.getNext(), queue.getNext(), queue.getNext()]).toEqual(['b', 'c', null]);
+        expect(queue.getLowestActive()?.taskId).toBe('c');
+
+        queue.complete('c');
+        expect(queue.getNext()).toBe('a');
+    });
+});
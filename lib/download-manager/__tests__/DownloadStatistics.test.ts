@@ -0,0 +1,101 @@
+import { DownloadStatistics } from '../DownloadStatistics';
+import { DownloadStatus, DownloadTask } from '../types';
+
+const task = (url: string, downloadedBytes: number = 0, activeTimeMs?: number): DownloadTask => ({
+    id: url,
+    url,
+    fileName: 'file.bin',
+    filePath: 'file:///documents/downloads/file.bin',
+    status: DownloadStatus.COMPLETED,
+    progress: 100,
+    totalBytes: downloadedBytes,
+    downloadedBytes,
+    createdAt: 1,
+    activeTimeMs,
+});
+
+describe('DownloadStatistics', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date(2026, 2, 10, 12, 0) });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('counts outcomes and bytes in the totals', () => {
+        const onChange = jest.fn();
+        const statistics = new DownloadStatistics(onChange);
+
+        statistics.recordCompleted(task('https://a.example.com/1', 1000, 1000));
+        statistics.recordFailed(task('https://a.example.com/2', 500));
+        statistics.recordCancelled(task('https://a.example.com/3'));
+
+        expect(statistics.getStats()).toMatchObject({
+            completedCount: 1,
+            failedCount: 1,
+            cancelledCount: 1,
+            totalBytes: 1000,
+            since: Date.now(),
+        });
+        expect(onChange).toHaveBeenCalledTimes(3);
+    });
+
+    it('ranks hosts by speed, slowest first and hosts without completed downloads last', () => {
+        const statistics = new DownloadStatistics();
+
+        statistics.recordFailed(task('https://broken.example.com/1'));
+        statistics.recordCompleted(task('https://fast.example.com/1', 4000, 1000));
+        statistics.recordCompleted(task('https://slow.example.com/1', 1000, 1000));
+        statistics.recordCompleted(task('https://slow.example.com/2', 1000, 1000));
+        statistics.recordFailed(task('https://slow.example.com/3'));
+
+        const { hosts } = statistics.getStats();
+        expect(hosts.map(host => [host.host, host.averageBytesPerSecond])).toEqual([
+            ['slow.example.com', 1000],
+            ['fast.example.com', 4000],
+            ['broken.example.com', 0],
+        ]);
+        expect(hosts[0].failureRate).toBeCloseTo(1 / 3);
+        expect(hosts[2].failureRate).toBe(1);
+    });
+
+    it('lists the last days including days without downloads', () => {
+        const statistics = new DownloadStatistics();
+
+        jest.setSystemTime(new Date(2026, 2, 8, 9, 0));
+        statistics.recordCompleted(task('https://a.example.com/1', 100));
+        jest.setSystemTime(new Date(2026, 2, 10, 9, 0));
+        statistics.recordCompleted(task('https://a.example.com/2', 200));
+
+        expect(statistics.getDailyStats(3).map(day => [day.date, day.totalBytes])).toEqual([
+            ['2026-03-08', 100],
+            ['2026-03-09', 0],
+            ['2026-03-10', 200],
+        ]);
+    });
+
+    it('drops days beyond the history when restoring', () => {
+        const statistics = new DownloadStatistics();
+        const counts = { completedCount: 1, failedCount: 0, cancelledCount: 0, totalBytes: 10 };
+
+        statistics.restore({
+            since: 0,
+            totals: { ...counts, completedCount: 2, totalBytes: 20 },
+            hosts: {},
+            days: { '2025-01-01': counts, '2026-03-01': counts },
+        });
+
+        expect(statistics.getStats().days.map(day => day.date)).toEqual(['2026-03-01']);
+        expect(statistics.getStats().completedCount).toBe(2);
+    });
+
+    it('starts over when reset', () => {
+        const statistics = new DownloadStatistics();
+        statistics.recordCompleted(task('https://a.example.com/1', 100));
+
+        statistics.reset();
+
+        expect(statistics.getStats()).toMatchObject({ completedCount: 0, totalBytes: 0, hosts: [], days: [] });
+    });
+});
@@ -0,0 +1,131 @@
+import { RangedTransport } from '../transports/RangedTransport';
+import type { ByteRange, TransportProgress, TransportRequest } from '../types';
+import { readFile, writeFile } from './support/fileSystem';
+import { MemoryTransport } from './support/MemoryTransport';
+
+const URL = 'https://example.com/video.mp4';
+const BODY = '0123456789abcdefghij';
+const FILE_PATH = 'file:///documents/downloads/video.mp4';
+
+function createRanges(...bounds: [number, number][]): ByteRange[] {
+    return bounds.map(([start, end]) => ({ start, end, chunks: [], downloadedBytes: 0, completed: false }));
+}
+
+function createRequest(onProgress: (progress: TransportProgress) => void = () => { }): TransportRequest {
+    return { url: URL, filePath: FILE_PATH, headers: { Authorization: 'token' }, onProgress };
+}
+
+describe('RangedTransport', () => {
+    let transport: MemoryTransport;
+
+    beforeEach(() => {
+        transport = new MemoryTransport();
+    });
+
+    it('downloads each range with its own request and joins them', async () => {
+        transport.serve(URL, { body: BODY });
+        const ranges = createRanges([0, 9], [10, 19]);
+        const onStateChange = jest.fn();
+
+        const result = await new RangedTransport(transport, ranges, onStateChange)
+            .createSession(createRequest())
+            .start();
+
+        expect(transport.requests.map(request => request.headers)).toEqual([
+            { Authorization: 'token', Range: 'bytes=0-9' },
+            { Authorization: 'token', Range: 'bytes=10-19' },
+        ]);
+        expect(result).toMatchObject({ uri: FILE_PATH, status: 200 });
+        expect(readFile(FILE_PATH)).toBe(BODY);
+        expect(ranges.every(range => range.completed)).toBe(true);
+        expect(ranges.flatMap(range => range.chunks).map(chunk => readFile(chunk))).toEqual([undefined, undefined]);
+        expect(onStateChange).toHaveBeenCalled();
+    });
+
+    it('reports the progress of all ranges together', async () => {
+        transport.serve(URL, { body: BODY });
+        const progress: TransportProgress[] = [];
+
+        await new RangedTransport(transport, createRanges([0, 9], [10, 19]), () => { })
+            .createSession(createRequest(update => progress.push(update)))
+            .start();
+
+        expect(progress[progress.length - 1]).toEqual({ bytesWritten: BODY.length, totalBytes: BODY.length });
+    });
+
+    it('resumes a paused range and leaves completed ranges alone', async () => {
+        transport.serve(URL, { body: BODY, hold: true }, { body: BODY });
+        const ranges = createRanges([0, 9], [10, 19]);
+        const ranged = new RangedTransport(transport, ranges, () => { });
+
+        const first = ranged.createSession(createRequest());
+        const started = first.start();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        await first.pause();
+
+        expect(await started).toBeUndefined();
+        expect(ranges[0]).toMatchObject({ completed: false, resumeData: '5' });
+        expect(ranges[1].completed).toBe(true);
+
+        const result = await ranged.createSession(createRequest()).start();
+
+        expect(transport.requests).toHaveLength(3);
+        expect(transport.requests[2]).toMatchObject({ resumeData: '5', headers: expect.objectContaining({ Range: 'bytes=0-9' }) });
+        expect(result?.status).toBe(200);
+        expect(readFile(FILE_PATH)).toBe(BODY);
+    });
+
+    it('continues a range after the bytes already on disk with a new chunk', async () => {
+        transport.serve(URL, { body: BODY });
+        const ranges = createRanges([0, 9], [10, 19]);
+        ranges[0].chunks = [`${FILE_PATH}.part0_0`];
+        writeFile(ranges[0].chunks[0], BODY.substring(0, 4));
+        ranges[1].completed = true;
+        ranges[1].chunks = [`${FILE_PATH}.part1_0`];
+        writeFile(ranges[1].chunks[0], BODY.substring(10));
+
+        await new RangedTransport(transport, ranges, () => { }).createSession(createRequest()).start();
+
+        expect(transport.requests.map(request => request.headers?.Range)).toEqual(['bytes=4-9']);
+        expect(ranges[0].chunks).toEqual([`${FILE_PATH}.part0_0`, `${FILE_PATH}.part0_1`]);
+        expect(readFile(FILE_PATH)).toBe(BODY);
+    });
+
+    it('drops headers that describe a single range from the result', async () => {
+        transport.serve(URL, { body: BODY, headers: { 'Content-MD5': 'range', 'Content-Range': 'bytes 0-9/20', 'ETag': '"v1"' } });
+
+        const result = await new RangedTransport(transport, createRanges([0, 9], [10, 19]), () => { })
+            .createSession(createRequest())
+            .start();
+
+        expect(result?.headers).toEqual({ 'ETag': '"v1"' });
+    });
+
+    it('fails when the server ignores the Range header', async () => {
+        transport.serve(URL, { body: BODY, ignoreRange: true });
+
+        const session = new RangedTransport(transport, createRanges([0, 9], [10, 19]), () => { })
+            .createSession(createRequest());
+
+        await expect(session.start()).rejects.toThrow('Server ignored the byte range request');
+    });
+
+    it('returns an error response as the result', async () => {
+        transport.serve(URL, { status: 416 });
+
+        const result = await new RangedTransport(transport, createRanges([0, 9], [10, 19]), () => { })
+            .createSession(createRequest())
+            .start();
+
+        expect(result?.status).toBe(416);
+    });
+
+    it('sends HEAD requests through the inner transport', async () => {
+        transport.serveHead(URL, { headers: { 'accept-ranges': 'bytes' } });
+
+        const response = await new RangedTransport(transport, [], () => { }).head({ url: URL });
+
+        expect(response.headers['accept-ranges']).toBe('bytes');
+        expect(transport.headRequests).toHaveLength(1);
+    });
+});
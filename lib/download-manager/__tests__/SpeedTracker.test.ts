@@ -0,0 +1,68 @@
+import { SpeedTracker } from '../SpeedTracker';
+import { calculateETA } from '../utils';
+
+describe('SpeedTracker', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 0 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    /**
+     * Advance the clock and record the byte count
+     */
+    function sampleAt(tracker: SpeedTracker, time: number, bytes: number): void {
+        jest.setSystemTime(time);
+        tracker.sample(bytes);
+    }
+
+    it('reports 0 until a second sample arrives', () => {
+        expect(new SpeedTracker(500).getBytesPerSecond()).toBe(0);
+    });
+
+    it('averages from the bytes already downloaded when tracking started', () => {
+        const tracker = new SpeedTracker(500);
+
+        sampleAt(tracker, 1000, 1500);
+        sampleAt(tracker, 2000, 4500);
+
+        expect(tracker.getBytesPerSecond()).toBe(2000);
+        expect(tracker.getElapsedMs()).toBe(2000);
+    });
+
+    it('only counts samples within the window', () => {
+        const tracker = new SpeedTracker(0, 2000);
+
+        sampleAt(tracker, 1000, 10000);
+        sampleAt(tracker, 2000, 11000);
+        sampleAt(tracker, 3000, 12000);
+        sampleAt(tracker, 4000, 13000);
+
+        expect(tracker.getBytesPerSecond()).toBe(1000);
+    });
+
+    it('starts over when the byte count drops', () => {
+        const tracker = new SpeedTracker(0);
+
+        sampleAt(tracker, 1000, 5000);
+        sampleAt(tracker, 2000, 100);
+        expect(tracker.getBytesPerSecond()).toBe(0);
+
+        sampleAt(tracker, 3000, 400);
+        expect(tracker.getBytesPerSecond()).toBe(300);
+    });
+});
+
+describe('calculateETA', () => {
+    it('rounds the remaining seconds up', () => {
+        expect(calculateETA(250, 1000, 300)).toBe(3);
+        expect(calculateETA(1000, 1000, 300)).toBe(0);
+    });
+
+    it('is undefined without a total size or speed', () => {
+        expect(calculateETA(250, 0, 300)).toBeUndefined();
+        expect(calculateETA(250, 1000, 0)).toBeUndefined();
+    });
+});
@@ -0,0 +1,127 @@
+import { STORAGE_KEYS } from '../constants';
+import { MemoryAdapter, SCHEMA_VERSION } from '../persistence';
+import type { StorageManager as StorageManagerType } from '../StorageManager';
+import { DownloadStatus, DownloadTask } from '../types';
+
+const task = (id: string): DownloadTask => ({
+    id,
+    url: `https://example.com/${id}.mp4`,
+    fileName: `${id}.mp4`,
+    filePath: `file:///documents/downloads/${id}.mp4`,
+    status: DownloadStatus.COMPLETED,
+    progress: 100,
+    totalBytes: 0,
+    downloadedBytes: 0,
+    createdAt: 1,
+});
+
+/**
+ * Fresh StorageManager (it is a singleton) on top of the given persisted items
+ */
+function createStorage(items: Record<string, string>): { storage: StorageManagerType; adapter: MemoryAdapter } {
+    jest.resetModules();
+    const { StorageManager } = require('../StorageManager') as typeof import('../StorageManager');
+
+    const adapter = new MemoryAdapter(items);
+    const storage = StorageManager.getInstance();
+    storage.setAdapter(adapter);
+    return { storage, adapter };
+}
+
+describe('StorageManager migrations', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('splits the task and metadata lists of unversioned data into per-task keys', async () => {
+        const { storage, adapter } = createStorage({
+            '@download_manager/tasks': JSON.stringify([task('a'), task('b')]),
+            '@download_manager/metadata': JSON.stringify({ a: { taskId: 'a' } }),
+        });
+
+        await storage.migrate();
+
+        expect(await adapter.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe(String(SCHEMA_VERSION));
+        expect(await adapter.getItem('@download_manager/tasks')).toBeNull();
+        expect(await adapter.getItem('@download_manager/metadata')).toBeNull();
+        expect(await adapter.getItem(`${STORAGE_KEYS.METADATA_PREFIX}a`)).toBe(JSON.stringify({ taskId: 'a' }));
+        expect((await storage.loadTasks()).map(t => t.id)).toEqual(['a', 'b']);
+    });
+
+    it('restores tasks from the backup when the task list is corrupt', async () => {
+        const { storage, adapter } = createStorage({
+            '@download_manager/tasks': '[{"id":',
+            '@download_manager/tasks:backup': JSON.stringify([task('a')]),
+        });
+
+        await storage.migrate();
+
+        const keys = await adapter.getAllKeys();
+        expect(keys.some(key => key.startsWith(`${STORAGE_KEYS.CORRUPT_PREFIX}@download_manager/tasks:`))).toBe(true);
+        expect((await storage.loadTasks()).map(t => t.id)).toEqual(['a']);
+    });
+
+    it('runs only the migrations above the stored version', async () => {
+        const { storage, adapter } = createStorage({
+            [STORAGE_KEYS.SCHEMA_VERSION]: String(SCHEMA_VERSION),
+            '@download_manager/tasks': JSON.stringify([task('a')]),
+        });
+
+        await storage.migrate();
+
+        expect(await adapter.getItem('@download_manager/tasks')).not.toBeNull();
+        expect(await storage.loadTasks()).toEqual([]);
+    });
+
+    it('leaves data of a newer schema untouched', async () => {
+        const items = {
+            [STORAGE_KEYS.SCHEMA_VERSION]: String(SCHEMA_VERSION + 1),
+            '@download_manager/tasks': JSON.stringify([task('a')]),
+        };
+        const { storage, adapter } = createStorage(items);
+
+        await storage.migrate();
+
+        expect(await adapter.getAllKeys()).toEqual(Object.keys(items));
+    });
+
+    it('sets aside malformed task records', async () => {
+        const { storage, adapter } = createStorage({
+            [STORAGE_KEYS.SCHEMA_VERSION]: String(SCHEMA_VERSION),
+            [`${STORAGE_KEYS.TASK_PREFIX}a`]: JSON.stringify(task('a')),
+            [`${STORAGE_KEYS.TASK_PREFIX}b`]: JSON.stringify({ id: 'b' }),
+        });
+
+        expect((await storage.loadTasks()).map(t => t.id)).toEqual(['a']);
+        expect(await adapter.getItem(`${STORAGE_KEYS.TASK_PREFIX}b`)).toBeNull();
+        const keys = await adapter.getAllKeys();
+        expect(keys.some(key => key.startsWith(`${STORAGE_KEYS.CORRUPT_PREFIX}${STORAGE_KEYS.TASK_PREFIX}b:`))).toBe(true);
+    });
+});
+
+describe('StorageManager task records', () => {
+    it('writes only the tasks saved since the last flush and deletes removed ones', async () => {
+        const { storage, adapter } = createStorage({
+            [`${STORAGE_KEYS.TASK_PREFIX}a`]: JSON.stringify(task('a')),
+        });
+        const setItem = jest.spyOn(adapter, 'setItem');
+
+        const b = task('b');
+        storage.saveTask(b);
+        storage.deleteTask('a');
+        b.status = DownloadStatus.PAUSED;
+        await storage.flush();
+
+        expect(setItem).toHaveBeenCalledTimes(1);
+        expect(await adapter.getItem(`${STORAGE_KEYS.TASK_PREFIX}a`)).toBeNull();
+        expect(JSON.parse((await adapter.getItem(`${STORAGE_KEYS.TASK_PREFIX}b`))!).status).toBe(DownloadStatus.PAUSED);
+
+        await storage.flush();
+        expect(setItem).toHaveBeenCalledTimes(1);
+    });
+});
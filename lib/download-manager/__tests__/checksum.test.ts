@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+import { computeChecksum, normalizeChecksum, parseServerChecksum } from '../checksum';
+import { writeFile } from './support/fileSystem';
+
+const FILE_PATH = 'file:///documents/downloads/file.bin';
+
+function digest(algorithm: string, data: string, encoding: 'hex' | 'base64' = 'hex'): string {
+    return createHash(algorithm).update(data, 'latin1').digest(encoding);
+}
+
+describe('computeChecksum', () => {
+    it('hashes short inputs', async () => {
+        writeFile(FILE_PATH, 'abc');
+
+        expect(await computeChecksum(FILE_PATH, 'sha256'))
+            .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        expect(await computeChecksum(FILE_PATH, 'sha1')).toBe('a9993e364706816aba3e25717850c26c9cd0d89d');
+        expect(await computeChecksum(FILE_PATH, 'md5')).toBe('900150983cd24fb0d6963f7d28e17f72');
+    });
+
+    it('hashes inputs spanning several blocks', async () => {
+        const data = Array.from({ length: 1000 }, (_, i) => String.fromCharCode(i % 256)).join('');
+        writeFile(FILE_PATH, data);
+
+        expect(await computeChecksum(FILE_PATH, 'sha256')).toBe(digest('sha256', data));
+        expect(await computeChecksum(FILE_PATH, 'sha1')).toBe(digest('sha1', data));
+    });
+
+    it('pads inputs that end right before the length field', async () => {
+        const data = 'x'.repeat(56);
+        writeFile(FILE_PATH, data);
+
+        expect(await computeChecksum(FILE_PATH, 'sha256')).toBe(digest('sha256', data));
+    });
+
+    it('rejects missing files', async () => {
+        await expect(computeChecksum('file:///documents/missing.bin', 'sha256')).rejects.toThrow('File not found');
+    });
+});
+
+describe('normalizeChecksum', () => {
+    it('lowercases hex digests', () => {
+        expect(normalizeChecksum(' 900150983CD24FB0D6963F7D28E17F72 ')).toBe('900150983cd24fb0d6963f7d28e17f72');
+    });
+
+    it('converts base64 digests to hex', () => {
+        expect(normalizeChecksum(digest('md5', 'abc', 'base64'))).toBe('900150983cd24fb0d6963f7d28e17f72');
+    });
+});
+
+describe('parseServerChecksum', () => {
+    const sha256 = digest('sha256', 'abc', 'base64');
+    const md5 = digest('md5', 'abc', 'base64');
+
+    it('prefers the strongest Digest algorithm', () => {
+        expect(parseServerChecksum({ Digest: `MD5=${md5}, SHA-256=${sha256}` })).toEqual({
+            algorithm: 'sha256',
+            value: digest('sha256', 'abc'),
+        });
+    });
+
+    it('falls back to Content-MD5', () => {
+        expect(parseServerChecksum({ 'Content-MD5': md5 })).toEqual({
+            algorithm: 'md5',
+            value: '900150983cd24fb0d6963f7d28e17f72',
+        });
+    });
+
+    it('ignores Content-MD5 of a partial response, which covers only the range', () => {
+        expect(parseServerChecksum({ 'content-md5': md5 }, 206)).toBeUndefined();
+        expect(parseServerChecksum({ 'digest': `sha-256=${sha256}` }, 206)?.algorithm).toBe('sha256');
+    });
+
+    it('returns undefined without checksum headers', () => {
+        expect(parseServerChecksum({ 'content-type': 'video/mp4', 'digest': 'unixsum=42' })).toBeUndefined();
+    });
+});
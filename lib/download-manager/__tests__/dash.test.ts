@@ -0,0 +1,110 @@
+import { buildLocalDashManifest, parseIsoDuration } from '../media/dash';
+
+const MANIFEST_URL = 'https://cdn.example.com/show/manifest.mpd';
+
+const MPD = `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT8S" minBufferTime="PT1S">
+  <Period id="main">
+    <AdaptationSet contentType="video" mimeType="video/mp4">
+      <SegmentTemplate timescale="1000" presentationTimeOffset="90000"
+          initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/$Time$.m4s">
+        <SegmentTimeline>
+          <S t="90000" d="2000" r="2"/>
+          <S d="2000"/>
+        </SegmentTimeline>
+      </SegmentTemplate>
+      <Representation id="360p" bandwidth="800000" height="360"/>
+      <Representation id="720p" bandwidth="2500000" height="720"/>
+    </AdaptationSet>
+    <AdaptationSet contentType="video" mimeType="video/mp4">
+      <EssentialProperty schemeIdUri="http://dashif.org/guidelines/trickmode" value="1"/>
+      <Representation id="trick" bandwidth="9000000" height="1080"/>
+    </AdaptationSet>
+    <AdaptationSet contentType="audio" lang="en">
+      <Role schemeIdUri="urn:mpeg:dash:role:2011" value="main"/>
+      <BaseURL>audio/en/</BaseURL>
+      <Representation id="en" bandwidth="128000">
+        <SegmentBase indexRange="800-1000"/>
+        <BaseURL>track.m4a</BaseURL>
+      </Representation>
+    </AdaptationSet>
+    <AdaptationSet contentType="audio" lang="de">
+      <Representation id="de" bandwidth="128000">
+        <SegmentList timescale="10" duration="40">
+          <Initialization sourceURL="de/init.mp4"/>
+          <SegmentURL media="de/1.m4s"/>
+          <SegmentURL media="de/2.m4s"/>
+        </SegmentList>
+      </Representation>
+    </AdaptationSet>
+  </Period>
+</MPD>
+`;
+
+describe('parseIsoDuration', () => {
+    it('parses days, hours, minutes and fractional seconds', () => {
+        expect(parseIsoDuration('PT1H2M3.5S')).toBe(3723.5);
+        expect(parseIsoDuration('P1DT1S')).toBe(86401);
+    });
+
+    it('returns 0 for missing or invalid values', () => {
+        expect(parseIsoDuration()).toBe(0);
+        expect(parseIsoDuration('1 hour')).toBe(0);
+    });
+});
+
+describe('buildLocalDashManifest', () => {
+    it('downloads the preferred video and the main audio representation', () => {
+        const local = buildLocalDashManifest(MPD, MANIFEST_URL, { height: 720 });
+
+        expect(local.resources).toEqual([
+            { url: 'https://cdn.example.com/show/720p/init.mp4', name: 'p0_v_init.mp4' },
+            { url: 'https://cdn.example.com/show/720p/90000.m4s', name: 'p0_v_seg_00001.m4s' },
+            { url: 'https://cdn.example.com/show/720p/92000.m4s', name: 'p0_v_seg_00002.m4s' },
+            { url: 'https://cdn.example.com/show/720p/94000.m4s', name: 'p0_v_seg_00003.m4s' },
+            { url: 'https://cdn.example.com/show/720p/96000.m4s', name: 'p0_v_seg_00004.m4s' },
+            { url: 'https://cdn.example.com/show/audio/en/track.m4a', name: 'p0_a_media.m4a' },
+        ]);
+        expect(local.estimatedBytes).toBe(Math.round((2500000 + 128000) / 8 * 8));
+        expect(local.manifest).toContain('<BaseURL>p0_a_media.m4a</BaseURL>');
+        expect(local.manifest).toContain('indexRange="800-1000"');
+        expect(local.manifest).not.toContain('trick');
+    });
+
+    it('keeps the media times and presentationTimeOffset of the timeline', () => {
+        const { manifest } = buildLocalDashManifest(MPD, MANIFEST_URL, { height: 720 });
+
+        expect(manifest).toContain('<SegmentList timescale="1000" presentationTimeOffset="90000">');
+        expect(manifest).toContain('<S t="90000" d="2000" r="3"/>');
+    });
+
+    it('picks the audio set by language and numbers SegmentList segments', () => {
+        const local = buildLocalDashManifest(MPD, MANIFEST_URL, { height: 360, language: 'de' });
+
+        expect(local.resources.map(resource => resource.name)).toEqual([
+            'p0_v_init.mp4',
+            'p0_v_seg_00001.m4s',
+            'p0_v_seg_00002.m4s',
+            'p0_v_seg_00003.m4s',
+            'p0_v_seg_00004.m4s',
+            'p0_a_init.mp4',
+            'p0_a_seg_00006.m4s',
+            'p0_a_seg_00007.m4s',
+        ]);
+        expect(local.resources[6].url).toBe('https://cdn.example.com/show/de/1.m4s');
+        expect(local.manifest).toContain('<S t="0" d="40" r="1"/>');
+    });
+
+    it('writes a static manifest', () => {
+        const { manifest } = buildLocalDashManifest(MPD, MANIFEST_URL);
+
+        expect(manifest).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<MPD /);
+        expect(manifest).toContain('type="static"');
+        expect(manifest).toContain('mediaPresentationDuration="PT8S"');
+        expect(manifest).toContain('<Period start="PT0S" id="main" duration="PT8S">');
+    });
+
+    it('rejects documents that are not an MPD', () => {
+        expect(() => buildLocalDashManifest('<html></html>', MANIFEST_URL)).toThrow('Invalid DASH manifest');
+    });
+});
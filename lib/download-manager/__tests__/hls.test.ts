@@ -0,0 +1,142 @@
+import {
+    buildLocalMasterPlaylist,
+    isMasterPlaylist,
+    parseMasterPlaylist,
+    rewriteMediaPlaylist,
+    selectAudioRendition,
+} from '../media/hls';
+import { selectVariant } from '../media/variants';
+
+const BASE_URL = 'https://cdn.example.com/show/master.m3u8';
+
+const MASTER = `#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",LANGUAGE="en",NAME="English",DEFAULT=YES,URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",LANGUAGE="de-DE",NAME="Deutsch",DEFAULT=NO,URI="audio/de.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",LANGUAGE="en",NAME="English",URI="subs/en.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,AUDIO="aud",SUBTITLES="subs"
+low/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720,AUDIO="aud",SUBTITLES="subs"
+mid/index.m3u8
+
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080,AUDIO="aud",SUBTITLES="subs"
+https://other.example.com/high/index.m3u8
+`;
+
+describe('HLS master playlists', () => {
+    const { variants, renditions } = parseMasterPlaylist(MASTER, BASE_URL);
+
+    it('tells master playlists from media playlists', () => {
+        expect(isMasterPlaylist(MASTER)).toBe(true);
+        expect(isMasterPlaylist('#EXTM3U\n#EXTINF:4,\nseg0.ts\n')).toBe(false);
+    });
+
+    it('parses variants with absolute URLs', () => {
+        expect(variants.map(variant => [variant.url, variant.bandwidth, variant.height])).toEqual([
+            ['https://cdn.example.com/show/low/index.m3u8', 800000, 360],
+            ['https://cdn.example.com/show/mid/index.m3u8', 2500000, 720],
+            ['https://other.example.com/high/index.m3u8', 5000000, 1080],
+        ]);
+        expect(variants[0].audioGroup).toBe('aud');
+    });
+
+    it('parses renditions', () => {
+        expect(renditions).toHaveLength(3);
+        expect(renditions[1]).toMatchObject({
+            type: 'AUDIO',
+            groupId: 'aud',
+            language: 'de-DE',
+            isDefault: false,
+            url: 'https://cdn.example.com/show/audio/de.m3u8',
+        });
+    });
+
+    it('picks the audio rendition by language, then the default', () => {
+        expect(selectAudioRendition(renditions, variants[0], 'de')?.language).toBe('de-DE');
+        expect(selectAudioRendition(renditions, variants[0], 'fr')?.language).toBe('en');
+        expect(selectAudioRendition(renditions, variants[0])?.language).toBe('en');
+    });
+
+    it('builds a master playlist listing only the downloaded variant and audio', () => {
+        const audio = selectAudioRendition(renditions, variants[1], 'de');
+        const playlist = buildLocalMasterPlaylist(variants[1], 'video.m3u8', audio, 'audio.m3u8');
+
+        expect(playlist).toBe([
+            '#EXTM3U',
+            '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",LANGUAGE="de-DE",NAME="Deutsch",DEFAULT=YES,URI="audio.m3u8"',
+            '#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720,AUDIO="aud"',
+            'video.m3u8',
+            '',
+        ].join('\n'));
+    });
+
+    it('drops the audio group when no audio playlist is downloaded', () => {
+        const playlist = buildLocalMasterPlaylist(variants[0], 'video.m3u8');
+
+        expect(playlist).toBe('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360\nvideo.m3u8\n');
+    });
+});
+
+describe('HLS media playlists', () => {
+    const MEDIA = `#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.com/k1"
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:6.0,
+seg0.m4s
+#EXT-X-BYTERANGE:1000@0
+#EXTINF:4.5,
+seg1.m4s
+#EXT-X-BYTERANGE:1000@1000
+#EXTINF:4.5,
+seg1.m4s
+#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://asset"
+#EXT-X-ENDLIST
+`;
+
+    it('rewrites segments, init segments and keys to local names', () => {
+        const local = rewriteMediaPlaylist(MEDIA, 'https://cdn.example.com/show/mid/index.m3u8', 'video');
+
+        expect(local.resources).toEqual([
+            { url: 'https://keys.example.com/k1', name: 'video_key_00000.key' },
+            { url: 'https://cdn.example.com/show/mid/init.mp4', name: 'video_init_00001.mp4' },
+            { url: 'https://cdn.example.com/show/mid/seg0.m4s', name: 'video_seg_00002.m4s' },
+            { url: 'https://cdn.example.com/show/mid/seg1.m4s', name: 'video_seg_00003.m4s' },
+        ]);
+        expect(local.duration).toBeCloseTo(15);
+        expect(local.playlist).toContain('#EXT-X-KEY:METHOD=AES-128,URI="video_key_00000.key"');
+        expect(local.playlist).toContain('#EXT-X-MAP:URI="video_init_00001.mp4"');
+        expect(local.playlist.match(/video_seg_00003\.m4s/g)).toHaveLength(2);
+    });
+
+    it('leaves DRM key URIs untouched', () => {
+        const local = rewriteMediaPlaylist(MEDIA, 'https://cdn.example.com/show/mid/index.m3u8', 'video');
+
+        expect(local.playlist).toContain('#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://asset"');
+    });
+});
+
+describe('selectVariant', () => {
+    const variants = [
+        { bandwidth: 800000, height: 360 },
+        { bandwidth: 5000000, height: 1080 },
+        { bandwidth: 2500000, height: 720 },
+    ];
+
+    it('picks the highest bandwidth by default', () => {
+        expect(selectVariant(variants)?.height).toBe(1080);
+    });
+
+    it('picks the closest resolution', () => {
+        expect(selectVariant(variants, { height: 600 })?.height).toBe(720);
+        expect(selectVariant(variants, { height: 4000 })?.height).toBe(1080);
+    });
+
+    it('picks the highest bandwidth within the limit, or the lowest one', () => {
+        expect(selectVariant(variants, { bandwidth: 3000000 })?.height).toBe(720);
+        expect(selectVariant(variants, { bandwidth: 100000 })?.height).toBe(360);
+    });
+
+    it('returns undefined without variants', () => {
+        expect(selectVariant([])).toBeUndefined();
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * In-memory transport
+ * Serves files from memory into the in-memory file system, so the whole manager runs in tests
+ */
+
+import type {
+    DownloadTransport,
+    TransportHeadRequest,
+    TransportHeadResult,
+    TransportRequest,
+    TransportResult,
+    TransportSession,
+} from '../../types';
+import { readFile, writeFile } from './fileSystem';
+
+/**
+ * Response to one transfer of a URL
+ */
+export interface MemoryResponse {
+    body?: string;
+    status?: number;                 // Defaults to 200
+    headers?: Record<string, string>;
+    hold?: boolean;                  // Stop halfway until the session is paused or cancelled
+    error?: string;                  // Fail the transfer with this message
+    ignoreRange?: boolean;           // Answer Range requests with the whole body
+}
+
+/**
+ * Response to HEAD requests for a URL
+ */
+export interface MemoryHeadResponse {
+    status?: number;                 // Defaults to 200
+    headers?: Record<string, string>; // Lower-case names
+    until?: Promise<void>;           // Answer once this resolves
+}
+
+export class MemoryTransport implements DownloadTransport {
+    public readonly name = 'memory';
+    public supportsPacing = true;    // Await request.pace after writing
+    public createResumeData?: (bytesWritten: number) => string; // Set to resume interrupted transfers from the file
+    public readonly requests: TransportRequest[] = [];
+    public readonly headRequests: TransportHeadRequest[] = [];
+    private responses: Map<string, MemoryResponse[]> = new Map();
+    private headResponses: Map<string, MemoryHeadResponse> = new Map();
+
+    /**
+     * Set the responses to transfers of a URL, in order (the last one repeats)
+     */
+    public serve(url: string, ...responses: MemoryResponse[]): void {
+        this.responses.set(url, responses);
+    }
+
+    /**
+     * Set the response to HEAD requests for a URL (others get 405)
+     */
+    public serveHead(url: string, response: MemoryHeadResponse): void {
+        this.headResponses.set(url, response);
+    }
+
+    public createSession(request: TransportRequest): TransportSession {
+        this.requests.push(request);
+
+        const responses = this.responses.get(request.url) ?? [];
+        const response = responses.length > 1 ? responses.shift() : responses[0];
+        return new MemorySession(request, response, this.supportsPacing);
+    }
+
+    public async head(request: TransportHeadRequest): Promise<TransportHeadResult> {
+        this.headRequests.push(request);
+
+        const response = this.headResponses.get(request.url);
+        if (!response) return { status: 405, headers: {} };
+
+        await response.until;
+        return { status: response.status ?? 200, headers: response.headers ?? {} };
+    }
+}
+
+class MemorySession implements TransportSession {
+    private bytesWritten = 0;
+    private release: (() => void) | null = null;
+
+    constructor(
+        private request: TransportRequest,
+        private response: MemoryResponse | undefined,
+        private pacing: boolean
+    ) { }
+
+    public async start(): Promise<TransportResult | undefined> {
+        const { request, response } = this;
+        if (!response) throw new Error('Network request failed: no response');
+        if (response.error) throw new Error(response.error);
+
+        // A Range header gets that part of the body as 206
+        const range = response.ignoreRange ? null : /^bytes=(\d+)-(\d*)$/.exec(request.headers?.Range ?? '');
+        const body = range
+            ? (response.body ?? '').substring(Number(range[1]), range[2] ? Number(range[2]) + 1 : undefined)
+            : response.body ?? '';
+        const status = response.status ?? (range ? 206 : 200);
+        const result = { uri: request.filePath, status, headers: response.headers ?? {} };
+        if (result.status >= 300) return result;
+
+        // Resume data is the number of bytes already on disk
+        const offset = Number(request.resumeData ?? 0);
+        const end = response.hold ? Math.max(offset, Math.floor(body.length / 2)) : body.length;
+        writeFile(request.filePath, (readFile(request.filePath) ?? '').substring(0, offset) + body.substring(offset, end));
+        this.bytesWritten = end;
+        request.onProgress({ bytesWritten: end, totalBytes: body.length });
+        if (this.pacing) await request.pace?.(end - offset);
+
+        if (response.hold) {
+            await new Promise<void>(resolve => { this.release = resolve; });
+            return undefined;
+        }
+        return result;
+    }
+
+    public async pause(): Promise<string | undefined> {
+        this.release?.();
+        return String(this.bytesWritten);
+    }
+
+    public async cancel(): Promise<void> {
+        this.release?.();
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * expo/fetch stand-in: the global fetch (see moduleNameMapper in package.json)
+ */
+
+export const fetch: typeof globalThis.fetch = (input, init) => globalThis.fetch(input, init);
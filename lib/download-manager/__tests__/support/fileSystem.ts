@@ -0,0 +1,190 @@
+/**
+ * In-memory file system
+ * Stands in for expo-file-system and its legacy API in tests (see moduleNameMapper in package.json)
+ * Every test gets an empty one, jest.resetModules() loads it again
+ */
+
+import { createHash } from 'crypto';
+
+const files: Map<string, string> = new Map();   // Path -> contents
+const directories: Set<string> = new Set();      // Created directories, ending with '/'
+
+export const documentDirectory = 'file:///documents/';
+
+function toDirectoryPath(path: string): string {
+    return path.endsWith('/') ? path : `${path}/`;
+}
+
+function isDirectory(path: string): boolean {
+    const directoryPath = toDirectoryPath(path);
+    return directories.has(directoryPath) ||
+        Array.from(files.keys()).some(filePath => filePath.startsWith(directoryPath));
+}
+
+function getSize(path: string): number {
+    const contents = files.get(path);
+    if (contents !== undefined) return contents.length;
+
+    const directoryPath = toDirectoryPath(path);
+    return Array.from(files.entries())
+        .filter(([filePath]) => filePath.startsWith(directoryPath))
+        .reduce((sum, [, data]) => sum + data.length, 0);
+}
+
+/**
+ * Create or replace a file
+ */
+export function writeFile(path: string, contents: string): void {
+    files.set(path, contents);
+}
+
+/**
+ * Read a file (undefined if missing)
+ */
+export function readFile(path: string): string | undefined {
+    return files.get(path);
+}
+
+/**
+ * Open file (characters stand for bytes)
+ */
+class FileHandle {
+    public offset = 0;
+
+    constructor(private readonly uri: string) { }
+
+    readBytes(length: number): Uint8Array {
+        const chunk = (files.get(this.uri) ?? '').substring(this.offset, this.offset + length);
+        this.offset += chunk.length;
+        return Uint8Array.from(chunk, char => char.charCodeAt(0));
+    }
+
+    writeBytes(bytes: Uint8Array): void {
+        const contents = files.get(this.uri) ?? '';
+        const chunk = String.fromCharCode(...Array.from(bytes));
+        files.set(this.uri, contents.substring(0, this.offset) + chunk + contents.substring(this.offset + chunk.length));
+        this.offset += chunk.length;
+    }
+
+    close(): void { }
+}
+
+export class File {
+    constructor(public readonly uri: string) { }
+
+    get name(): string {
+        return this.uri.substring(this.uri.lastIndexOf('/') + 1);
+    }
+
+    get exists(): boolean {
+        return files.has(this.uri);
+    }
+
+    get size(): number {
+        return getSize(this.uri);
+    }
+
+    get md5(): string | null {
+        const contents = files.get(this.uri);
+        return contents === undefined ? null : createHash('md5').update(contents, 'latin1').digest('hex');
+    }
+
+    create(): void {
+        files.set(this.uri, '');
+    }
+
+    delete(): void {
+        files.delete(this.uri);
+    }
+
+    open(): FileHandle {
+        return new FileHandle(this.uri);
+    }
+}
+
+export class Directory {
+    constructor(public readonly uri: string) { }
+
+    get name(): string {
+        return this.uri.replace(/\/$/, '').split('/').pop() ?? '';
+    }
+
+    get exists(): boolean {
+        return isDirectory(this.uri);
+    }
+
+    get size(): number {
+        return getSize(this.uri);
+    }
+
+    /**
+     * Entries directly inside the directory
+     */
+    list(): (File | Directory)[] {
+        const directoryPath = toDirectoryPath(this.uri);
+        const entries: Map<string, File | Directory> = new Map();
+        const paths = [...Array.from(files.keys()), ...Array.from(directories)];
+
+        for (const path of paths) {
+            if (!path.startsWith(directoryPath) || path === directoryPath) continue;
+
+            const [name, ...rest] = path.substring(directoryPath.length).split('/');
+            entries.set(name, rest.length > 0
+                ? new Directory(`${directoryPath}${name}/`)
+                : new File(`${directoryPath}${name}`));
+        }
+        return Array.from(entries.values());
+    }
+}
+
+export const Paths = {
+    info(path: string): { exists: boolean; isDirectory: boolean | null } {
+        if (files.has(path)) return { exists: true, isDirectory: false };
+        return isDirectory(path) ? { exists: true, isDirectory: true } : { exists: false, isDirectory: null };
+    },
+};
+
+/**
+ * expo-file-system/legacy
+ */
+export const FileSystemSessionType = { BACKGROUND: 0, FOREGROUND: 1 };
+
+export async function getInfoAsync(path: string) {
+    const info = Paths.info(path);
+    return info.exists
+        ? { exists: true, isDirectory: info.isDirectory, size: getSize(path), uri: path }
+        : { exists: false, isDirectory: false, uri: path };
+}
+
+export async function makeDirectoryAsync(path: string): Promise<void> {
+    directories.add(toDirectoryPath(path));
+}
+
+export async function deleteAsync(path: string): Promise<void> {
+    files.delete(path);
+    const directoryPath = toDirectoryPath(path);
+    for (const filePath of Array.from(files.keys())) {
+        if (filePath.startsWith(directoryPath)) files.delete(filePath);
+    }
+    for (const created of Array.from(directories)) {
+        if (created.startsWith(directoryPath)) directories.delete(created);
+    }
+}
+
+export async function readAsStringAsync(path: string): Promise<string> {
+    const contents = files.get(path);
+    if (contents === undefined) throw new Error(`File not found: ${path}`);
+    return contents;
+}
+
+export async function writeAsStringAsync(path: string, contents: string): Promise<void> {
+    files.set(path, contents);
+}
+
+export async function getFreeDiskStorageAsync(): Promise<number> {
+    return 10 * 1024 * 1024 * 1024;
+}
+
+export function createDownloadResumable(): never {
+    throw new Error('Tests use MemoryTransport');
+}
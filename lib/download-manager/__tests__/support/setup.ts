@@ -0,0 +1,6 @@
+/**
+ * Test setup
+ */
+
+// jest-expo mocks a few functions of expo-file-system, use the whole in-memory one instead
+jest.mock('expo-file-system', () => jest.requireActual('./fileSystem'));
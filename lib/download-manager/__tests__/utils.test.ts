@@ -0,0 +1,137 @@
+import { ERROR_CODES } from '../constants';
+import { RetryPolicy } from '../types';
+import {
+    classifyError,
+    classifyHttpStatus,
+    getConfigError,
+    getNextWindowStart,
+    getRetryDelay,
+    getWindowEnd,
+    parseTimeOfDay,
+} from '../utils';
+
+const policy: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 5000,
+    jitter: 0,
+    retryableErrors: [],
+};
+
+describe('getRetryDelay', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('doubles the delay with every attempt', () => {
+        expect([1, 2, 3].map(attempt => getRetryDelay(attempt, policy))).toEqual([1000, 2000, 4000]);
+    });
+
+    it('caps the delay at maxDelayMs', () => {
+        expect(getRetryDelay(4, policy)).toBe(5000);
+        expect(getRetryDelay(20, policy)).toBe(5000);
+    });
+
+    it('spreads the delay by the jitter fraction', () => {
+        const jittered = { ...policy, jitter: 0.2 };
+
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(getRetryDelay(1, jittered)).toBe(800);
+
+        jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(getRetryDelay(1, jittered)).toBe(1200);
+    });
+});
+
+describe('error classification', () => {
+    it('maps HTTP statuses to error codes', () => {
+        expect(classifyHttpStatus(206)).toBeNull();
+        expect(classifyHttpStatus(403)).toBe(ERROR_CODES.UNAUTHORIZED);
+        expect(classifyHttpStatus(404)).toBe(ERROR_CODES.NOT_FOUND);
+        expect(classifyHttpStatus(503)).toBe(ERROR_CODES.SERVER_ERROR);
+    });
+
+    it('maps transport errors to error codes', () => {
+        expect(classifyError(new Error('The request timed out'))).toBe(ERROR_CODES.TIMEOUT);
+        expect(classifyError(new Error('Network request failed'))).toBe(ERROR_CODES.NETWORK_ERROR);
+        expect(classifyError(new Error('ENOSPC: no space left on device'))).toBe(ERROR_CODES.INSUFFICIENT_STORAGE);
+    });
+});
+
+describe('getConfigError', () => {
+    it('accepts valid and empty settings', () => {
+        expect(getConfigError({})).toBeNull();
+        expect(getConfigError({
+            maxConcurrentDownloads: 2,
+            maxRetryAttempts: 0,
+            maxBytesPerSecond: 0,
+            preflight: false,
+            duplicatePolicy: 'rename',
+            allowedNetworks: ['wifi'],
+            allowedHours: { start: '22:00', end: '06:00' },
+        })).toBeNull();
+    });
+
+    it('rejects counts that are not integers or below their minimum', () => {
+        expect(getConfigError({ maxConcurrentDownloads: 0 })).toBe('maxConcurrentDownloads must be an integer of at least 1');
+        expect(getConfigError({ segmentCount: 2.5 })).toBe('segmentCount must be an integer of at least 1');
+        expect(getConfigError({ maxRetryAttempts: -1 })).toBe('maxRetryAttempts must be an integer of at least 0');
+    });
+
+    it('rejects negative or non-numeric amounts', () => {
+        expect(getConfigError({ timeoutMs: -1 })).toBe('timeoutMs must be a non-negative number');
+        expect(getConfigError({ maxBytesPerSecond: Infinity })).toBe('maxBytesPerSecond must be a non-negative number');
+        expect(getConfigError({ minFreeSpaceMB: '50' as any })).toBe('minFreeSpaceMB must be a non-negative number');
+    });
+
+    it('rejects flags that are not booleans and unknown choices', () => {
+        expect(getConfigError({ preflight: 'yes' as any })).toBe('preflight must be a boolean');
+        expect(getConfigError({ evictionPolicy: 'random' as any })).toBe('evictionPolicy must be one of: lru, oldest, largest');
+    });
+
+    it('rejects unknown networks and invalid allowed hours', () => {
+        expect(getConfigError({ allowedNetworks: 'wifi' as any })).toBe('allowedNetworks must be an array');
+        expect(getConfigError({ allowedNetworks: ['satellite' as any] }))
+            .toBe('allowedNetworks contains an unknown connection type: satellite');
+        expect(getConfigError({ allowedHours: { start: '25:00', end: '06:00' } }))
+            .toBe('allowedHours: Invalid time of day: 25:00');
+    });
+});
+
+describe('schedule windows', () => {
+    const at = (day: number, hours: number, minutes: number = 0) => new Date(2026, 0, day, hours, minutes).getTime();
+    const night = { start: '22:00', end: '06:30' };
+    const office = { start: '09:00', end: '17:00' };
+
+    it('parses times of day', () => {
+        expect(parseTimeOfDay('06:30')).toBe(390);
+        expect(parseTimeOfDay(' 0:05 ')).toBe(5);
+        expect(() => parseTimeOfDay('24:00')).toThrow('Invalid time of day: 24:00');
+        expect(() => parseTimeOfDay('9am')).toThrow();
+    });
+
+    it('starts right away inside the window', () => {
+        expect(getNextWindowStart(office, at(5, 12))).toBe(at(5, 12));
+        expect(getNextWindowStart(night, at(5, 23))).toBe(at(5, 23));
+        expect(getNextWindowStart(night, at(6, 3))).toBe(at(6, 3));
+    });
+
+    it('waits for the next opening outside the window', () => {
+        expect(getNextWindowStart(office, at(5, 8))).toBe(at(5, 9));
+        expect(getNextWindowStart(office, at(5, 17))).toBe(at(6, 9));
+        expect(getNextWindowStart(night, at(5, 12))).toBe(at(5, 22));
+    });
+
+    it('finds when the current window closes', () => {
+        expect(getWindowEnd(office, at(5, 12))).toBe(at(5, 17));
+        expect(getWindowEnd(night, at(5, 23))).toBe(at(6, 6, 30));
+        expect(getWindowEnd(night, at(6, 3))).toBe(at(6, 6, 30));
+    });
+
+    it('treats a window that starts where it ends as the whole day', () => {
+        const always = { start: '00:00', end: '00:00' };
+
+        expect(getNextWindowStart(always, at(5, 12))).toBe(at(5, 12));
+        expect(getWindowEnd(always, at(5, 12))).toBeNull();
+    });
+});
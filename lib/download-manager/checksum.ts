@@ -0,0 +1,252 @@
+/**
+ * Checksums
+ * File hashing and server checksum header parsing for integrity verification
+ * (MD5 is computed natively, SHA-1/SHA-256 incrementally in JS)
+ */
+
+import { File } from 'expo-file-system';
+import type { Checksum, ChecksumAlgorithm } from './types';
+
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+const SHA256_K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * Incremental SHA-1 / SHA-256 (both use 64-byte blocks and big-endian words)
+ */
+class ShaHash {
+    private state: Uint32Array;
+    private block = new Uint8Array(64);
+    private blockLength = 0;
+    private totalLength = 0;
+    private words: Uint32Array;
+    private compress: (words: Uint32Array) => void;
+
+    constructor(algorithm: 'sha1' | 'sha256') {
+        if (algorithm === 'sha1') {
+            this.state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+            this.words = new Uint32Array(80);
+            this.compress = this.compressSha1;
+        } else {
+            this.state = new Uint32Array([
+                0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+            ]);
+            this.words = new Uint32Array(64);
+            this.compress = this.compressSha256;
+        }
+    }
+
+    public update(bytes: Uint8Array): void {
+        this.totalLength += bytes.length;
+        let offset = 0;
+
+        while (offset < bytes.length) {
+            const count = Math.min(64 - this.blockLength, bytes.length - offset);
+            this.block.set(bytes.subarray(offset, offset + count), this.blockLength);
+            this.blockLength += count;
+            offset += count;
+
+            if (this.blockLength === 64) {
+                this.processBlock();
+            }
+        }
+    }
+
+    public digest(): string {
+        const bitLength = this.totalLength * 8;
+
+        // Padding: 0x80, zeros, 64-bit big-endian length
+        this.block[this.blockLength++] = 0x80;
+        if (this.blockLength > 56) {
+            this.block.fill(0, this.blockLength);
+            this.processBlock();
+        }
+        this.block.fill(0, this.blockLength);
+        const view = new DataView(this.block.buffer);
+        view.setUint32(56, Math.floor(bitLength / 0x100000000));
+        view.setUint32(60, bitLength >>> 0);
+        this.processBlock();
+
+        return Array.from(this.state, word => word.toString(16).padStart(8, '0')).join('');
+    }
+
+    private processBlock(): void {
+        const view = new DataView(this.block.buffer);
+        for (let i = 0; i < 16; i++) {
+            this.words[i] = view.getUint32(i * 4);
+        }
+        this.compress(this.words);
+        this.blockLength = 0;
+    }
+
+    private compressSha1 = (w: Uint32Array): void => {
+        for (let i = 16; i < 80; i++) {
+            w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+        }
+
+        let [a, b, c, d, e] = this.state;
+        for (let i = 0; i < 80; i++) {
+            let f: number;
+            let k: number;
+            if (i < 20) {
+                f = (b & c) | (~b & d);
+                k = 0x5a827999;
+            } else if (i < 40) {
+                f = b ^ c ^ d;
+                k = 0x6ed9eba1;
+            } else if (i < 60) {
+                f = (b & c) | (b & d) | (c & d);
+                k = 0x8f1bbcdc;
+            } else {
+                f = b ^ c ^ d;
+                k = 0xca62c1d6;
+            }
+
+            const temp = (rotl(a, 5) + f + e + k + w[i]) | 0;
+            e = d;
+            d = c;
+            c = rotl(b, 30);
+            b = a;
+            a = temp;
+        }
+
+        this.state[0] += a;
+        this.state[1] += b;
+        this.state[2] += c;
+        this.state[3] += d;
+        this.state[4] += e;
+    };
+
+    private compressSha256 = (w: Uint32Array): void => {
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+
+        let [a, b, c, d, e, f, g, h] = this.state;
+        for (let i = 0; i < 64; i++) {
+            const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+            const ch = (e & f) ^ (~e & g);
+            const temp1 = (h + s1 + ch + SHA256_K[i] + w[i]) | 0;
+            const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const temp2 = (s0 + maj) | 0;
+
+            h = g;
+            g = f;
+            f = e;
+            e = (d + temp1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (temp1 + temp2) | 0;
+        }
+
+        this.state[0] += a;
+        this.state[1] += b;
+        this.state[2] += c;
+        this.state[3] += d;
+        this.state[4] += e;
+        this.state[5] += f;
+        this.state[6] += g;
+        this.state[7] += h;
+    };
+}
+
+/**
+ * Convert a base64 digest (as sent in HTTP headers) to lowercase hex
+ */
+function base64ToHex(value: string): string {
+    return Array.from(atob(value), char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Normalize a checksum value to lowercase hex
+ */
+export function normalizeChecksum(value: string): string {
+    const trimmed = value.trim();
+    // Hex digests are 32 (MD5), 40 (SHA-1) or 64 (SHA-256) characters
+    return /^([0-9a-f]{32}|[0-9a-f]{40}|[0-9a-f]{64})$/i.test(trimmed)
+        ? trimmed.toLowerCase()
+        : base64ToHex(trimmed);
+}
+
+/**
+ * Compute the hash of a file as lowercase hex
+ * Reads the file in chunks and yields between them to keep the UI responsive
+ */
+export async function computeChecksum(filePath: string, algorithm: ChecksumAlgorithm): Promise<string> {
+    const file = new File(filePath);
+    if (!file.exists) {
+        throw new Error(`File not found: ${filePath}`);
+    }
+
+    if (algorithm === 'md5') {
+        const md5 = file.md5;
+        if (!md5) throw new Error(`Cannot read file: ${filePath}`);
+        return md5.toLowerCase();
+    }
+
+    const hash = new ShaHash(algorithm);
+    const handle = file.open();
+    try {
+        let remaining = file.size;
+        while (remaining > 0) {
+            const bytes = handle.readBytes(Math.min(READ_CHUNK_BYTES, remaining));
+            if (bytes.length === 0) break;
+            hash.update(bytes);
+            remaining -= bytes.length;
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    } finally {
+        handle.close();
+    }
+
+    return hash.digest();
+}
+
+/**
+ * Read the checksum announced by the server
+ * Supports Digest (RFC 3230: sha-256, sha, md5) and Content-MD5
+ * Content-MD5 of a 206 response covers only the sent range and is ignored
+ */
+export function parseServerChecksum(headers: Record<string, string>, status: number = 200): Checksum | undefined {
+    const lowerHeaders: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+        lowerHeaders[key.toLowerCase()] = value;
+    }
+
+    const algorithms: Record<string, ChecksumAlgorithm> = { 'sha-256': 'sha256', sha: 'sha1', md5: 'md5' };
+    const digests = new Map<ChecksumAlgorithm, string>();
+    for (const part of (lowerHeaders.digest ?? '').split(',')) {
+        const separator = part.indexOf('=');
+        const algorithm = algorithms[part.substring(0, separator).trim().toLowerCase()];
+        if (separator > 0 && algorithm) {
+            digests.set(algorithm, part.substring(separator + 1).trim());
+        }
+    }
+
+    // Strongest algorithm first
+    for (const algorithm of ['sha256', 'sha1', 'md5'] as const) {
+        const value = digests.get(algorithm);
+        if (value) return { algorithm, value: base64ToHex(value) };
+    }
+
+    if (lowerHeaders['content-md5'] && status !== 206) {
+        return { algorithm: 'md5', value: base64ToHex(lowerHeaders['content-md5'].trim()) };
+    }
+    return undefined;
+}
@@ -3,7 +3,17 @@
  */
 
 import * as FileSystem from 'expo-file-system/legacy';
-import type { DownloadManagerConfig } from './types';
+import type { ConnectionType, DownloadManagerConfig, RetryPolicy } from './types';
+
+/**
+ * File size limits (defaults for DownloadManagerConfig)
+ */
+export const FILE_LIMITS = {
+    MAX_FILE_SIZE_MB: 500,  // 500 MB max per file
+    MIN_FREE_SPACE_MB: 100, // Require 100 MB free space
+    MIN_RANGE_SIZE_MB: 4,   // Don't split files into byte ranges smaller than this
+    RESUME_MARGIN_MB: 50,   // Free space above the minimum needed to resume after a storage pause
+} as const;
 
 /**
  * Default configuration for Download Manager
@@ -14,6 +24,34 @@ export const DEFAULT_CONFIG: DownloadManagerConfig = {
     maxRetryAttempts: 3,                // Retry up to 3 times
     progressUpdateThrottleMs: 100,      // Update progress max every 100ms
     autoRetryOnNetworkRestore: true,    // Auto-retry when network returns
+    segmentCount: 1,                    // Single connection per file
+    duplicatePolicy: 'rename',          // Never overwrite another task's file
+    preflight: true,                    // HEAD request for name, type and size
+    maxFileSizeMB: FILE_LIMITS.MAX_FILE_SIZE_MB,
+    minFreeSpaceMB: FILE_LIMITS.MIN_FREE_SPACE_MB,
+    maxStorageMB: 0,                    // No quota
+    evictionPolicy: 'lru',              // Evict least recently used first
+    orphanFilePolicy: 'adopt',          // Show untracked files as completed downloads
+    maxBytesPerSecond: 0,               // No bandwidth cap
+    allowedNetworks: [],                // Download on any connection
+    allowedHours: null,                 // Download at any time
+    preemptLowerPriority: false,        // Promoted tasks wait for a free slot
+    autoResumeInterrupted: false,       // Interrupted downloads come back paused
+};
+
+/**
+ * Display names of connection types (used in waiting reasons)
+ */
+export const CONNECTION_TYPE_LABELS: Record<ConnectionType, string> = {
+    wifi: 'Wi-Fi',
+    cellular: 'cellular',
+    ethernet: 'Ethernet',
+    bluetooth: 'Bluetooth',
+    wimax: 'WiMAX',
+    vpn: 'VPN',
+    other: 'other network',
+    unknown: 'unknown network',
+    none: 'no connection',
 };
 
 /**
@@ -22,12 +60,43 @@ export const DEFAULT_CONFIG: DownloadManagerConfig = {
 export const DOWNLOAD_DIRECTORY = `${(FileSystem as any).documentDirectory}downloads/`;
 
 /**
- * AsyncStorage keys for persisting data
+ * File extensions for common Content-Type values
+ */
+export const MIME_EXTENSIONS: Record<string, string> = {
+    'video/mp4': '.mp4',
+    'video/quicktime': '.mov',
+    'video/webm': '.webm',
+    'video/x-matroska': '.mkv',
+    'video/x-msvideo': '.avi',
+    'video/3gpp': '.3gp',
+    'video/mp2t': '.ts',
+    'audio/mpeg': '.mp3',
+    'audio/mp4': '.m4a',
+    'audio/aac': '.aac',
+    'audio/wav': '.wav',
+    'audio/ogg': '.ogg',
+    'application/vnd.apple.mpegurl': '.m3u8',
+    'application/x-mpegurl': '.m3u8',
+    'audio/mpegurl': '.m3u8',
+    'application/dash+xml': '.mpd',
+    'application/pdf': '.pdf',
+    'application/zip': '.zip',
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+};
+
+/**
+ * Keys for persisting data (see PersistenceAdapter)
  */
 export const STORAGE_KEYS = {
-    TASKS: '@download_manager/tasks',
+    TASK_PREFIX: '@download_manager/task/',         // One record per task, followed by its id
+    GROUPS: '@download_manager/groups',
     QUEUE: '@download_manager/queue',
-    METADATA: '@download_manager/metadata',
+    METADATA_PREFIX: '@download_manager/metadata/', // One entry per task, followed by its id
+    CONFIG: '@download_manager/config',
+    STATS: '@download_manager/stats',
+    SCHEMA_VERSION: '@download_manager/schema_version',
+    CORRUPT_PREFIX: '@download_manager/corrupt/',   // Unreadable data set aside, followed by its key and a timestamp
 } as const;
 
 /**
@@ -39,8 +108,17 @@ export const ERROR_CODES = {
     FILE_SYSTEM_ERROR: 'FILE_SYSTEM_ERROR',
     INVALID_URL: 'INVALID_URL',
     SERVER_ERROR: 'SERVER_ERROR',
+    CLIENT_ERROR: 'CLIENT_ERROR',
+    NOT_FOUND: 'NOT_FOUND',
     CANCELLED: 'CANCELLED',
     INSUFFICIENT_STORAGE: 'INSUFFICIENT_STORAGE',
+    UNAUTHORIZED: 'UNAUTHORIZED',
+    CHECKSUM_MISMATCH: 'CHECKSUM_MISMATCH',
+    DUPLICATE_DOWNLOAD: 'DUPLICATE_DOWNLOAD',
+    FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+    QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+    FILE_MISSING: 'FILE_MISSING',
+    FILE_SIZE_MISMATCH: 'FILE_SIZE_MISMATCH',
     UNKNOWN: 'UNKNOWN',
 } as const;
 
@@ -54,14 +132,10 @@ export const HTTP_STATUS = {
     CLIENT_ERROR_MAX: 499,
     SERVER_ERROR_MIN: 500,
     SERVER_ERROR_MAX: 599,
-} as const;
-
-/**
- * File size limits (optional, can be customized)
- */
-export const FILE_LIMITS = {
-    MAX_FILE_SIZE_MB: 500,  // 500 MB max per file
-    MIN_FREE_SPACE_MB: 100, // Require 100 MB free space
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
+    NOT_FOUND: 404,
+    GONE: 410,
 } as const;
 
 /**
@@ -69,6 +143,31 @@ export const FILE_LIMITS = {
  */
 export const TIMING = {
     RETRY_DELAY_MS: 2000,           // Wait 2s before retry
+    RETRY_MAX_DELAY_MS: 60000,      // Never wait more than 1 min between retries
     NETWORK_CHECK_INTERVAL_MS: 5000, // Check network every 5s
+    STORAGE_CHECK_INTERVAL_MS: 10000, // Check free space every 10s
+    SCHEDULE_CHECK_MAX_DELAY_MS: 15 * 60 * 1000, // Re-check schedules at least every 15 min
     QUEUE_PROCESS_DELAY_MS: 100,    // Small delay between queue processing
+    SPEED_WINDOW_MS: 5000,          // Average speed over the last 5s
+    PERSIST_BATCH_MS: 500,          // Collect task changes for 0.5s before writing them
+    PROGRESS_CHECKPOINT_MS: 5000,   // Save resumable state of running downloads every 5s
 } as const;
+
+/**
+ * Days of per-day statistics kept (older days only remain in the totals)
+ */
+export const STATS_HISTORY_DAYS = 90;
+
+/**
+ * Default retry policy (maxAttempts comes from DownloadManagerConfig)
+ */
+export const DEFAULT_RETRY_POLICY: Omit<RetryPolicy, 'maxAttempts'> = {
+    baseDelayMs: TIMING.RETRY_DELAY_MS,
+    maxDelayMs: TIMING.RETRY_MAX_DELAY_MS,
+    jitter: 0.2,
+    retryableErrors: [
+        ERROR_CODES.NETWORK_ERROR,
+        ERROR_CODES.TIMEOUT,
+        ERROR_CODES.SERVER_ERROR,
+    ],
+};
@@ -3,5 +3,6 @@
  */
 
 export { useDownload } from './useDownload';
+export { useDownloadGroup } from './useDownloadGroup';
 export { useDownloadManager } from './useDownloadManager';
-
+export { useDownloadStats } from './useDownloadStats';
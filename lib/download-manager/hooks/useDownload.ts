@@ -12,6 +12,8 @@ export interface UseDownloadReturn {
     progress: number;
     status: DownloadStatus | null;
     error: DownloadError | null;
+    bytesPerSecond: number;
+    etaSeconds: number | null;
     pause: () => Promise<void>;
     resume: () => Promise<void>;
     cancel: () => Promise<void>;
@@ -70,16 +72,25 @@ export function useDownload(taskId: string | null): UseDownloadReturn {
             }
         };
 
+        // The file was deleted to stay within the storage quota
+        const handleEvicted = (evictedTask: DownloadTask) => {
+            if (evictedTask.id === taskId) {
+                setTask(null);
+            }
+        };
+
         manager.on('progress', handleProgress);
         manager.on('status-change', handleStatusChange);
         manager.on('completed', handleCompleted);
         manager.on('error', handleError);
+        manager.on('evicted', handleEvicted);
 
         return () => {
             manager.off('progress', handleProgress);
             manager.off('status-change', handleStatusChange);
             manager.off('completed', handleCompleted);
             manager.off('error', handleError);
+            manager.off('evicted', handleEvicted);
         };
     }, [taskId, manager, updateTask]);
 
@@ -106,6 +117,8 @@ export function useDownload(taskId: string | null): UseDownloadReturn {
         progress: task?.progress || 0,
         status: task?.status || null,
         error: task?.error || null,
+        bytesPerSecond: task?.bytesPerSecond || 0,
+        etaSeconds: task?.etaSeconds ?? null,
         pause,
         resume,
         cancel,
@@ -0,0 +1,94 @@
+/**
+ * useDownloadGroup Hook
+ * Hook for tracking a group of downloads
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { DownloadManager } from '../DownloadManager';
+import type { DownloadGroupProgress, DownloadTask } from '../types';
+
+export interface UseDownloadGroupReturn {
+    group: DownloadGroupProgress | null;
+    progress: number;
+    pause: () => Promise<void>;
+    resume: () => Promise<void>;
+    cancel: () => Promise<void>;
+}
+
+/**
+ * Hook for tracking a download group
+ * @param groupId - The group ID to track
+ */
+export function useDownloadGroup(groupId: string | null): UseDownloadGroupReturn {
+    const [group, setGroup] = useState<DownloadGroupProgress | null>(null);
+    const [manager] = useState(() => DownloadManager.getInstance());
+
+    // Update aggregate state
+    const updateGroup = useCallback(() => {
+        if (!groupId) {
+            setGroup(null);
+            return;
+        }
+        setGroup(manager.getGroupProgress(groupId) || null);
+    }, [groupId, manager]);
+
+    // Setup event listeners for the tasks of this group
+    useEffect(() => {
+        if (!groupId) {
+            setGroup(null);
+            return;
+        }
+
+        // Initial load
+        updateGroup();
+
+        // Listen to member task events
+        const handleTaskEvent = (task: DownloadTask) => {
+            if (task.groupId === groupId) {
+                updateGroup();
+            }
+        };
+
+        manager.on('progress', handleTaskEvent);
+        manager.on('status-change', handleTaskEvent);
+        manager.on('completed', handleTaskEvent);
+        manager.on('error', handleTaskEvent);
+        manager.on('cancelled', handleTaskEvent);
+        manager.on('evicted', handleTaskEvent);
+
+        return () => {
+            manager.off('progress', handleTaskEvent);
+            manager.off('status-change', handleTaskEvent);
+            manager.off('completed', handleTaskEvent);
+            manager.off('error', handleTaskEvent);
+            manager.off('cancelled', handleTaskEvent);
+            manager.off('evicted', handleTaskEvent);
+        };
+    }, [groupId, manager, updateGroup]);
+
+    // Pause the group
+    const pause = useCallback(async () => {
+        if (!groupId) return;
+        await manager.pauseGroup(groupId);
+    }, [groupId, manager]);
+
+    // Resume the group
+    const resume = useCallback(async () => {
+        if (!groupId) return;
+        await manager.resumeGroup(groupId);
+    }, [groupId, manager]);
+
+    // Cancel the group
+    const cancel = useCallback(async () => {
+        if (!groupId) return;
+        await manager.cancelGroup(groupId);
+    }, [groupId, manager]);
+
+    return {
+        group,
+        progress: group?.progress || 0,
+        pause,
+        resume,
+        cancel,
+    };
+}
@@ -3,16 +3,24 @@
  * Main hook for managing multiple downloads
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { DownloadManager } from '../DownloadManager';
 import type { DownloadOptions, DownloadTask } from '../types';
 
 export interface UseDownloadManagerReturn {
     downloads: Map<string, DownloadTask>;
+    queue: string[];
+    totalBytesPerSecond: number;
     startDownload: (url: string, options?: DownloadOptions) => Promise<string>;
     pauseDownload: (taskId: string) => Promise<void>;
     resumeDownload: (taskId: string) => Promise<void>;
     cancelDownload: (taskId: string) => Promise<void>;
+    markAccessed: (taskId: string) => Promise<void>;
+    setPinned: (taskId: string, pinned: boolean) => Promise<void>;
+    setPriority: (taskId: string, priority: number) => Promise<void>;
+    moveToFront: (taskId: string) => Promise<void>;
+    moveToBack: (taskId: string) => Promise<void>;
+    reorderQueue: (taskIds: string[]) => Promise<void>;
     getDownload: (taskId: string) => DownloadTask | undefined;
     getAllDownloads: () => DownloadTask[];
     getActiveDownloads: () => DownloadTask[];
@@ -24,6 +32,7 @@ export interface UseDownloadManagerReturn {
  */
 export function useDownloadManager(): UseDownloadManagerReturn {
     const [downloads, setDownloads] = useState<Map<string, DownloadTask>>(new Map());
+    const [queue, setQueue] = useState<string[]>([]);
     const [manager] = useState(() => DownloadManager.getInstance());
 
     // Update state from manager
@@ -38,6 +47,7 @@ export function useDownloadManager(): UseDownloadManagerReturn {
         // Initialize manager
         manager.initialize().then(() => {
             updateDownloads();
+            setQueue(manager.getQueue());
         });
 
         // Listen to all events and update state
@@ -46,12 +56,16 @@ export function useDownloadManager(): UseDownloadManagerReturn {
         const handleCompleted = () => updateDownloads();
         const handleError = () => updateDownloads();
         const handleCancelled = () => updateDownloads();
+        const handleEvicted = () => updateDownloads();
+        const handleQueueChanged = (queuedTaskIds: string[]) => setQueue(queuedTaskIds);
 
         manager.on('progress', handleProgress);
         manager.on('status-change', handleStatusChange);
         manager.on('completed', handleCompleted);
         manager.on('error', handleError);
         manager.on('cancelled', handleCancelled);
+        manager.on('evicted', handleEvicted);
+        manager.on('queue-changed', handleQueueChanged);
 
         return () => {
             manager.off('progress', handleProgress);
@@ -59,6 +73,8 @@ export function useDownloadManager(): UseDownloadManagerReturn {
             manager.off('completed', handleCompleted);
             manager.off('error', handleError);
             manager.off('cancelled', handleCancelled);
+            manager.off('evicted', handleEvicted);
+            manager.off('queue-changed', handleQueueChanged);
         };
     }, [manager, updateDownloads]);
 
@@ -99,6 +115,59 @@ export function useDownloadManager(): UseDownloadManagerReturn {
         [manager, updateDownloads]
     );
 
+    // Record that a download was played (LRU eviction)
+    const markAccessed = useCallback(
+        async (taskId: string): Promise<void> => {
+            await manager.markAccessed(taskId);
+        },
+        [manager]
+    );
+
+    // Pin or unpin a download
+    const setPinned = useCallback(
+        async (taskId: string, pinned: boolean): Promise<void> => {
+            await manager.setPinned(taskId, pinned);
+            updateDownloads();
+        },
+        [manager, updateDownloads]
+    );
+
+    // Change the queue priority of a download
+    const setPriority = useCallback(
+        async (taskId: string, priority: number): Promise<void> => {
+            await manager.setPriority(taskId, priority);
+            updateDownloads();
+        },
+        [manager, updateDownloads]
+    );
+
+    // Start a queued download next
+    const moveToFront = useCallback(
+        async (taskId: string): Promise<void> => {
+            await manager.moveToFront(taskId);
+            updateDownloads();
+        },
+        [manager, updateDownloads]
+    );
+
+    // Start a queued download last
+    const moveToBack = useCallback(
+        async (taskId: string): Promise<void> => {
+            await manager.moveToBack(taskId);
+            updateDownloads();
+        },
+        [manager, updateDownloads]
+    );
+
+    // Put queued downloads in a new order
+    const reorderQueue = useCallback(
+        async (taskIds: string[]): Promise<void> => {
+            await manager.reorderQueue(taskIds);
+            updateDownloads();
+        },
+        [manager, updateDownloads]
+    );
+
     // Get a specific download
     const getDownload = useCallback(
         (taskId: string): DownloadTask | undefined => {
@@ -112,6 +181,12 @@ export function useDownloadManager(): UseDownloadManagerReturn {
         return Array.from(downloads.values());
     }, [downloads]);
 
+    // Combined speed of all running downloads
+    const totalBytesPerSecond = useMemo(
+        () => Array.from(downloads.values()).reduce((sum, task) => sum + (task.bytesPerSecond ?? 0), 0),
+        [downloads]
+    );
+
     // Get active downloads
     const getActiveDownloads = useCallback((): DownloadTask[] => {
         return manager.getActiveDownloads();
@@ -119,10 +194,18 @@ export function useDownloadManager(): UseDownloadManagerReturn {
 
     return {
         downloads,
+        queue,
+        totalBytesPerSecond,
         startDownload,
         pauseDownload,
         resumeDownload,
         cancelDownload,
+        markAccessed,
+        setPinned,
+        setPriority,
+        moveToFront,
+        moveToBack,
+        reorderQueue,
         getDownload,
         getAllDownloads,
         getActiveDownloads,
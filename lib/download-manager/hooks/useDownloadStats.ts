@@ -0,0 +1,53 @@
+/**
+ * useDownloadStats Hook
+ * Hook for reading download statistics
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { DownloadManager } from '../DownloadManager';
+import type { DailyStats, DownloadStats } from '../types';
+
+export interface UseDownloadStatsReturn {
+    stats: DownloadStats;
+    daily: DailyStats[];
+    reset: () => void;
+}
+
+/**
+ * Hook for download statistics
+ * @param days - Number of days in `daily`, up to today
+ */
+export function useDownloadStats(days: number = 30): UseDownloadStatsReturn {
+    const [manager] = useState(() => DownloadManager.getInstance());
+    const [stats, setStats] = useState<DownloadStats>(() => manager.getStats());
+    const [daily, setDaily] = useState<DailyStats[]>(() => manager.getDailyStats(days));
+
+    // Update from manager
+    const updateStats = useCallback(() => {
+        setStats(manager.getStats());
+        setDaily(manager.getDailyStats(days));
+    }, [days, manager]);
+
+    // Setup event listener
+    useEffect(() => {
+        // Initial load (statistics are restored during initialize)
+        manager.initialize().then(updateStats);
+
+        manager.on('stats-changed', updateStats);
+
+        return () => {
+            manager.off('stats-changed', updateStats);
+        };
+    }, [manager, updateStats]);
+
+    // Clear all statistics
+    const reset = useCallback(() => {
+        manager.resetStats();
+    }, [manager]);
+
+    return {
+        stats,
+        daily,
+        reset,
+    };
+}
@@ -3,7 +3,10 @@
  */
 
 export { DownloadManager } from './DownloadManager';
-export { useDownload, useDownloadManager } from './hooks';
+export { useDownload, useDownloadGroup, useDownloadManager, useDownloadStats } from './hooks';
+export { AsyncStorageAdapter, MemoryAdapter, SQLiteAdapter } from './persistence';
+export type { SQLiteDatabaseLike } from './persistence';
+export { FetchTransport, FileSystemTransport, RangedTransport } from './transports';
 export * from './types';
 export { formatETA, formatFileSize } from './utils';
 
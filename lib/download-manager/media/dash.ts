@@ -0,0 +1,473 @@
+/**
+ * DASH Manifests
+ * Parses an MPD, picks video and audio representations and builds a static
+ * local MPD that lists the stored segments
+ * Supports SegmentTemplate (with or without SegmentTimeline), SegmentList and SegmentBase
+ */
+
+import type { VariantPreference } from '../types';
+import { getUrlExtension, resolveUrl } from '../utils';
+import { matchesLanguage, selectVariant } from './variants';
+import { getChild, getChildren, parseXml, serializeXml, XmlElement } from './xml';
+
+/**
+ * Remote file referenced by the manifest
+ */
+export interface DashResource {
+    url: string;                     // Absolute URL
+    name: string;                    // Local file name
+}
+
+/**
+ * Manifest rewritten to local file names
+ */
+export interface DashLocalManifest {
+    manifest: string;                // Local MPD text
+    resources: DashResource[];       // Unique files in download order
+    estimatedBytes: number;          // Size estimate from bandwidth * duration
+}
+
+/**
+ * A media segment after expanding the addressing scheme
+ */
+interface DashSegment {
+    url: string;
+    time: number;                    // Start on the media timeline, in timescale units
+    duration: number;                // In timescale units (0 if unknown)
+    mediaRange?: string;
+}
+
+/**
+ * Segments of one representation
+ */
+interface DashSegmentIndex {
+    timescale: number;
+    presentationTimeOffset: number;  // Media time at the period start, in timescale units
+    initialization?: { url: string; range?: string };
+    segments: DashSegment[];
+    singleFile?: boolean;            // Whole representation is one file (SegmentBase)
+    segmentBase?: XmlElement;
+}
+
+/**
+ * Representation together with the elements it inherits from
+ */
+interface DashCandidate {
+    period: XmlElement;
+    adaptationSet: XmlElement;
+    representation: XmlElement;
+    bandwidth: number;
+    height?: number;
+}
+
+/** Descriptive children copied into the local manifest */
+const COPIED_DESCRIPTORS = [
+    'Role',
+    'Label',
+    'Accessibility',
+    'AudioChannelConfiguration',
+    'EssentialProperty',
+    'SupplementalProperty',
+];
+
+/**
+ * Parse an ISO 8601 duration (PT1H2M3.5S) to seconds
+ */
+export function parseIsoDuration(value?: string): number {
+    const match = value?.match(
+        /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+    );
+    if (!match) return 0;
+
+    const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+    return Number(days) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function formatIsoDuration(seconds: number): string {
+    return `PT${Number(seconds.toFixed(3))}S`;
+}
+
+/**
+ * Resolve BaseURL of an element against its parent's base
+ */
+function getBaseUrl(element: XmlElement, parentBase: string): string {
+    const baseUrl = getChild(element, 'BaseURL')?.text;
+    return baseUrl ? resolveUrl(baseUrl, parentBase) : parentBase;
+}
+
+/**
+ * Merge a segment element with the one inherited from a parent level
+ * Attributes of the inner element win, children fall back to the outer one
+ */
+function mergeSegmentElement(
+    outer: XmlElement | undefined,
+    inner: XmlElement | undefined
+): XmlElement | undefined {
+    if (!outer || !inner) return inner ?? outer;
+
+    return {
+        name: inner.name,
+        attributes: { ...outer.attributes, ...inner.attributes },
+        children: inner.children.length > 0 ? inner.children : outer.children,
+        text: '',
+    };
+}
+
+function findSegmentElement(candidate: DashCandidate, name: string): XmlElement | undefined {
+    return mergeSegmentElement(
+        mergeSegmentElement(getChild(candidate.period, name), getChild(candidate.adaptationSet, name)),
+        getChild(candidate.representation, name)
+    );
+}
+
+/**
+ * Expand a SegmentTimeline into (time, duration) pairs
+ */
+function expandTimeline(
+    timeline: XmlElement,
+    startTime: number,
+    endTime: number
+): { time: number; duration: number }[] {
+    const entries: { time: number; duration: number }[] = [];
+    const items = getChildren(timeline, 'S');
+    let time = startTime;
+
+    items.forEach((item, index) => {
+        const duration = Number(item.attributes.d) || 0;
+        if (duration <= 0) return;
+
+        time = item.attributes.t !== undefined ? Number(item.attributes.t) : time;
+        let repeat = Number(item.attributes.r) || 0;
+
+        // r = -1 repeats until the next S element or the end of the period
+        if (repeat < 0) {
+            const nextTime = items[index + 1]?.attributes.t;
+            const until = nextTime !== undefined ? Number(nextTime) : endTime;
+            repeat = Math.max(0, Math.ceil((until - time) / duration) - 1);
+        }
+
+        for (let i = 0; i <= repeat; i++) {
+            entries.push({ time, duration });
+            time += duration;
+        }
+    });
+
+    return entries;
+}
+
+/**
+ * Substitute $RepresentationID$, $Number$, $Time$ and $Bandwidth$ in a template
+ */
+function fillTemplate(template: string, values: Record<string, string | number>): string {
+    return template.replace(
+        /\$(RepresentationID|Number|Time|Bandwidth)(?:%0(\d+)d)?\$|\$\$/g,
+        (match, identifier?: string, width?: string) => {
+            if (!identifier) return '$';
+            const value = String(values[identifier]);
+            return width ? value.padStart(Number(width), '0') : value;
+        }
+    );
+}
+
+/**
+ * Build the segment index of a representation
+ */
+function getSegmentIndex(
+    candidate: DashCandidate,
+    baseUrl: string,
+    periodDuration: number
+): DashSegmentIndex {
+    const representationId = candidate.representation.attributes.id ?? '';
+    const template = findSegmentElement(candidate, 'SegmentTemplate');
+    const list = findSegmentElement(candidate, 'SegmentList');
+
+    if (template) {
+        const { attributes } = template;
+        const timescale = Number(attributes.timescale) || 1;
+        const startNumber = attributes.startNumber !== undefined ? Number(attributes.startNumber) : 1;
+        const offset = Number(attributes.presentationTimeOffset) || 0;
+        const values = { RepresentationID: representationId, Bandwidth: candidate.bandwidth };
+        const timeline = getChild(template, 'SegmentTimeline');
+
+        let entries: { time: number; duration: number }[];
+        if (timeline) {
+            entries = expandTimeline(timeline, offset, offset + periodDuration * timescale);
+        } else {
+            const duration = Number(attributes.duration) || 0;
+            const count = duration > 0 ? Math.ceil((periodDuration * timescale) / duration) : 0;
+            entries = Array.from({ length: count }, (_, i) => ({ time: offset + i * duration, duration }));
+        }
+
+        return {
+            timescale,
+            presentationTimeOffset: offset,
+            initialization: attributes.initialization
+                ? { url: resolveUrl(fillTemplate(attributes.initialization, values), baseUrl) }
+                : undefined,
+            segments: attributes.media
+                ? entries.map((entry, i) => ({
+                    url: resolveUrl(
+                        fillTemplate(attributes.media, { ...values, Number: startNumber + i, Time: entry.time }),
+                        baseUrl
+                    ),
+                    time: entry.time,
+                    duration: entry.duration,
+                }))
+                : [],
+        };
+    }
+
+    if (list) {
+        const timescale = Number(list.attributes.timescale) || 1;
+        const offset = Number(list.attributes.presentationTimeOffset) || 0;
+        const segmentUrls = getChildren(list, 'SegmentURL');
+        const timeline = getChild(list, 'SegmentTimeline');
+        const duration = Number(list.attributes.duration) || 0;
+        const entries = timeline
+            ? expandTimeline(timeline, offset, offset + periodDuration * timescale)
+            : segmentUrls.map((_, i) => ({ time: offset + i * duration, duration }));
+        const initialization = getChild(list, 'Initialization');
+
+        return {
+            timescale,
+            presentationTimeOffset: offset,
+            initialization: initialization
+                ? {
+                    url: initialization.attributes.sourceURL
+                        ? resolveUrl(initialization.attributes.sourceURL, baseUrl)
+                        : baseUrl,
+                    range: initialization.attributes.range,
+                }
+                : undefined,
+            segments: segmentUrls.map((segmentUrl, i) => ({
+                url: segmentUrl.attributes.media ? resolveUrl(segmentUrl.attributes.media, baseUrl) : baseUrl,
+                time: entries[i]?.time ?? 0,
+                duration: entries[i]?.duration ?? 0,
+                mediaRange: segmentUrl.attributes.mediaRange,
+            })),
+        };
+    }
+
+    // SegmentBase, or no addressing at all: the whole representation is one file
+    return {
+        timescale: 1,
+        presentationTimeOffset: 0,
+        segments: [{ url: baseUrl, time: 0, duration: 0 }],
+        singleFile: true,
+        segmentBase: findSegmentElement(candidate, 'SegmentBase'),
+    };
+}
+
+/**
+ * Content type of an adaptation set ('video', 'audio', 'text', ...)
+ */
+function getContentType(adaptationSet: XmlElement): string {
+    const mimeType = adaptationSet.attributes.contentType
+        || adaptationSet.attributes.mimeType
+        || getChild(adaptationSet, 'Representation')?.attributes.mimeType
+        || '';
+    return mimeType.split('/')[0];
+}
+
+function isTrickMode(adaptationSet: XmlElement): boolean {
+    return getChildren(adaptationSet, 'EssentialProperty').some(
+        property => property.attributes.schemeIdUri?.includes('trickmode')
+    );
+}
+
+function toCandidates(period: XmlElement, adaptationSets: XmlElement[]): DashCandidate[] {
+    return adaptationSets.flatMap(adaptationSet =>
+        getChildren(adaptationSet, 'Representation').map(representation => ({
+            period,
+            adaptationSet,
+            representation,
+            bandwidth: Number(representation.attributes.bandwidth) || 0,
+            height: Number(representation.attributes.height || adaptationSet.attributes.height) || undefined,
+        }))
+    );
+}
+
+/**
+ * Pick the audio adaptation set: preferred language, then Role=main, then the first
+ */
+function selectAudioSet(audioSets: XmlElement[], language?: string): XmlElement | undefined {
+    return (language && audioSets.find(set => matchesLanguage(set.attributes.lang, language)))
+        || audioSets.find(set => getChildren(set, 'Role').some(role => role.attributes.value === 'main'))
+        || audioSets[0];
+}
+
+/**
+ * Copy attributes without namespace prefixes (their declarations are not kept)
+ */
+function copyAttributes(element: XmlElement): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(element.attributes).filter(([key]) => !key.includes(':'))
+    );
+}
+
+function createElement(
+    name: string,
+    attributes: Record<string, string> = {},
+    children: XmlElement[] = [],
+    text: string = ''
+): XmlElement {
+    return { name, attributes, children, text };
+}
+
+/**
+ * Build the local Representation element for a downloaded segment index
+ */
+function buildLocalRepresentation(
+    candidate: DashCandidate,
+    index: DashSegmentIndex,
+    localName: (url: string, kind: 'init' | 'seg' | 'media') => string
+): XmlElement {
+    const children = candidate.representation.children
+        .filter(child => COPIED_DESCRIPTORS.includes(child.name));
+
+    if (index.singleFile) {
+        // Single file, keep SegmentBase so the player can read the index
+        children.push(createElement('BaseURL', {}, [], localName(index.segments[0].url, 'media')));
+        if (index.segmentBase) {
+            children.push(index.segmentBase);
+        }
+    } else {
+        const listChildren: XmlElement[] = [];
+        if (index.initialization) {
+            const initAttributes: Record<string, string> = {
+                sourceURL: localName(index.initialization.url, 'init'),
+            };
+            if (index.initialization.range) initAttributes.range = index.initialization.range;
+            listChildren.push(createElement('Initialization', initAttributes));
+        }
+
+        // Original media times as a compact timeline: contiguous runs of equal durations use r
+        const timeline: XmlElement[] = [];
+        let time: number | undefined;
+        for (const segment of index.segments) {
+            const last = timeline[timeline.length - 1];
+            if (last && Number(last.attributes.d) === segment.duration && segment.time === time) {
+                last.attributes.r = String((Number(last.attributes.r) || 0) + 1);
+            } else {
+                timeline.push(createElement('S', { t: String(segment.time), d: String(segment.duration) }));
+            }
+            time = segment.time + segment.duration;
+        }
+        if (index.segments.every(segment => segment.duration > 0)) {
+            listChildren.push(createElement('SegmentTimeline', {}, timeline));
+        }
+
+        for (const segment of index.segments) {
+            const segmentAttributes: Record<string, string> = { media: localName(segment.url, 'seg') };
+            if (segment.mediaRange) segmentAttributes.mediaRange = segment.mediaRange;
+            listChildren.push(createElement('SegmentURL', segmentAttributes));
+        }
+
+        const listAttributes: Record<string, string> = { timescale: String(index.timescale) };
+        if (index.presentationTimeOffset) {
+            listAttributes.presentationTimeOffset = String(index.presentationTimeOffset);
+        }
+        children.push(createElement('SegmentList', listAttributes, listChildren));
+    }
+
+    return createElement('Representation', copyAttributes(candidate.representation), children);
+}
+
+/**
+ * Parse an MPD, select representations and build the local manifest
+ * @param text - MPD document
+ * @param manifestUrl - URL the MPD was loaded from
+ * @param preference - Preferred video variant and audio language
+ */
+export function buildLocalDashManifest(
+    text: string,
+    manifestUrl: string,
+    preference: VariantPreference = {}
+): DashLocalManifest {
+    const mpd = parseXml(text);
+    if (mpd.name !== 'MPD') {
+        throw new Error('Invalid DASH manifest');
+    }
+
+    const mpdBase = getBaseUrl(mpd, manifestUrl);
+    const totalDuration = parseIsoDuration(mpd.attributes.mediaPresentationDuration);
+    const periods = getChildren(mpd, 'Period');
+
+    const resources: DashResource[] = [];
+    const names = new Map<string, string>();
+    const localPeriods: XmlElement[] = [];
+    let presentationDuration = 0;
+    let estimatedBytes = 0;
+
+    periods.forEach((period, periodIndex) => {
+        // Period duration: explicit, up to the next period, or up to the end
+        const start = parseIsoDuration(period.attributes.start) || presentationDuration;
+        const nextStart = parseIsoDuration(periods[periodIndex + 1]?.attributes.start);
+        const duration = parseIsoDuration(period.attributes.duration)
+            || (nextStart > start ? nextStart - start : Math.max(0, totalDuration - start));
+        presentationDuration = start + duration;
+
+        const periodBase = getBaseUrl(period, mpdBase);
+        const adaptationSets = getChildren(period, 'AdaptationSet');
+        const videoSets = adaptationSets.filter(set => getContentType(set) === 'video' && !isTrickMode(set));
+        const audioSets = adaptationSets.filter(set => getContentType(set) === 'audio');
+
+        const selected: DashCandidate[] = [];
+        const video = selectVariant(toCandidates(period, videoSets), preference);
+        if (video) selected.push(video);
+
+        const audioSet = selectAudioSet(audioSets, preference.language);
+        const audio = audioSet ? selectVariant(toCandidates(period, [audioSet])) : undefined;
+        if (audio) selected.push(audio);
+
+        const localSets = selected.map(candidate => {
+            const kind = candidate === video ? 'v' : 'a';
+            const prefix = `p${periodIndex}_${kind}`;
+            const baseUrl = getBaseUrl(
+                candidate.representation,
+                getBaseUrl(candidate.adaptationSet, periodBase)
+            );
+            const index = getSegmentIndex(candidate, baseUrl, duration);
+
+            // Each unique URL is stored once (SegmentList byte ranges reuse one file)
+            const localName = (url: string, type: 'init' | 'seg' | 'media') => {
+                let name = names.get(url);
+                if (!name) {
+                    const ext = getUrlExtension(url) || (kind === 'v' ? '.mp4' : '.m4a');
+                    name = type === 'seg'
+                        ? `${prefix}_seg_${String(resources.length).padStart(5, '0')}${ext}`
+                        : `${prefix}_${type}${ext}`;
+                    names.set(url, name);
+                    resources.push({ url, name });
+                }
+                return name;
+            };
+
+            estimatedBytes += (candidate.bandwidth / 8) * duration;
+
+            const setChildren = candidate.adaptationSet.children
+                .filter(child => COPIED_DESCRIPTORS.includes(child.name));
+            setChildren.push(buildLocalRepresentation(candidate, index, localName));
+            return createElement('AdaptationSet', copyAttributes(candidate.adaptationSet), setChildren);
+        });
+
+        const periodAttributes: Record<string, string> = { start: formatIsoDuration(start) };
+        if (period.attributes.id) periodAttributes.id = period.attributes.id;
+        if (duration > 0) periodAttributes.duration = formatIsoDuration(duration);
+        localPeriods.push(createElement('Period', periodAttributes, localSets));
+    });
+
+    const localMpd = createElement('MPD', {
+        xmlns: 'urn:mpeg:dash:schema:mpd:2011',
+        type: 'static',
+        profiles: 'urn:mpeg:dash:profile:full:2011',
+        minBufferTime: mpd.attributes.minBufferTime || 'PT2S',
+        mediaPresentationDuration: formatIsoDuration(totalDuration || presentationDuration),
+    }, localPeriods);
+
+    return {
+        manifest: `<?xml version="1.0" encoding="UTF-8"?>\n${serializeXml(localMpd)}\n`,
+        resources,
+        estimatedBytes: Math.round(estimatedBytes),
+    };
+}
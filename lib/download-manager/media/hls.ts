@@ -0,0 +1,239 @@
+/**
+ * HLS Playlists
+ * Parses master and media playlists, picks a variant and rewrites
+ * playlists so they point at the locally stored files
+ */
+
+import { getUrlExtension, resolveUrl } from '../utils';
+import { matchesLanguage } from './variants';
+
+/**
+ * Variant stream from a master playlist
+ */
+export interface HlsVariant {
+    url: string;                     // Absolute media playlist URL
+    bandwidth: number;               // Peak bandwidth in bits/s
+    height?: number;                 // Vertical resolution
+    audioGroup?: string;             // AUDIO group id
+    tag: string;                     // Original #EXT-X-STREAM-INF line
+}
+
+/**
+ * Alternative rendition (#EXT-X-MEDIA) from a master playlist
+ */
+export interface HlsRendition {
+    type: string;                    // AUDIO, SUBTITLES, ...
+    groupId: string;
+    language?: string;
+    isDefault: boolean;
+    url?: string;                    // Absolute playlist URL (absent if muxed in the variant)
+    tag: string;                     // Original #EXT-X-MEDIA line
+}
+
+/**
+ * Remote file referenced by a media playlist
+ */
+export interface HlsResource {
+    url: string;                     // Absolute URL
+    name: string;                    // Local file name
+}
+
+/**
+ * Media playlist rewritten to local file names
+ */
+export interface HlsLocalPlaylist {
+    playlist: string;                // Playlist text with local URIs
+    resources: HlsResource[];        // Unique files in playlist order
+    duration: number;                // Total duration in seconds
+}
+
+const ATTRIBUTE_PATTERN = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+
+/**
+ * Parse an attribute list such as BANDWIDTH=1280000,RESOLUTION=1280x720
+ */
+function parseAttributes(value: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of value.matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+    }
+    return attributes;
+}
+
+/**
+ * Replace the value of the URI attribute in a tag
+ */
+function replaceUri(tag: string, uri: string): string {
+    return tag.replace(/URI="[^"]*"/, `URI="${uri}"`);
+}
+
+/**
+ * Remove an attribute from a tag
+ */
+function removeAttribute(tag: string, name: string): string {
+    return tag
+        .replace(new RegExp(`,${name}=("[^"]*"|[^,]*)`), '')
+        .replace(new RegExp(`:${name}=("[^"]*"|[^,]*),?`), ':');
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/).map(line => line.trim());
+}
+
+/**
+ * Check if a playlist is a master playlist (lists variants, not segments)
+ */
+export function isMasterPlaylist(text: string): boolean {
+    return text.includes('#EXT-X-STREAM-INF');
+}
+
+/**
+ * Parse variants and renditions from a master playlist
+ */
+export function parseMasterPlaylist(
+    text: string,
+    baseUrl: string
+): { variants: HlsVariant[]; renditions: HlsRendition[] } {
+    const variants: HlsVariant[] = [];
+    const renditions: HlsRendition[] = [];
+    const lines = splitLines(text);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith('#EXT-X-STREAM-INF:')) {
+            const attributes = parseAttributes(line.substring(line.indexOf(':') + 1));
+
+            // The variant URI is the next non-comment line
+            let j = i + 1;
+            while (j < lines.length && (!lines[j] || lines[j].startsWith('#'))) j++;
+            if (j >= lines.length) break;
+
+            const resolution = attributes.RESOLUTION?.split('x');
+            variants.push({
+                url: resolveUrl(lines[j], baseUrl),
+                bandwidth: Number(attributes.BANDWIDTH) || 0,
+                height: resolution ? Number(resolution[1]) || undefined : undefined,
+                audioGroup: attributes.AUDIO,
+                tag: line,
+            });
+            i = j;
+        } else if (line.startsWith('#EXT-X-MEDIA:')) {
+            const attributes = parseAttributes(line.substring(line.indexOf(':') + 1));
+            renditions.push({
+                type: attributes.TYPE,
+                groupId: attributes['GROUP-ID'],
+                language: attributes.LANGUAGE,
+                isDefault: attributes.DEFAULT === 'YES',
+                url: attributes.URI ? resolveUrl(attributes.URI, baseUrl) : undefined,
+                tag: line,
+            });
+        }
+    }
+
+    return { variants, renditions };
+}
+
+/**
+ * Pick the audio rendition for a variant
+ * Prefers the requested language, then the DEFAULT rendition
+ */
+export function selectAudioRendition(
+    renditions: HlsRendition[],
+    variant: HlsVariant,
+    language?: string
+): HlsRendition | undefined {
+    const candidates = renditions.filter(
+        rendition => rendition.type === 'AUDIO' && rendition.groupId === variant.audioGroup
+    );
+
+    return (language && candidates.find(r => matchesLanguage(r.language, language)))
+        || candidates.find(r => r.isDefault)
+        || candidates[0];
+}
+
+/**
+ * Build a master playlist that only lists the downloaded variant
+ */
+export function buildLocalMasterPlaylist(
+    variant: HlsVariant,
+    variantName: string,
+    audio?: HlsRendition,
+    audioName?: string
+): string {
+    const lines = ['#EXTM3U'];
+
+    // Groups we don't download must not be referenced
+    let streamTag = removeAttribute(variant.tag, 'SUBTITLES');
+    streamTag = removeAttribute(streamTag, 'CLOSED-CAPTIONS');
+    streamTag = removeAttribute(streamTag, 'VIDEO');
+
+    if (audio?.url && audioName) {
+        lines.push(replaceUri(audio.tag, audioName).replace('DEFAULT=NO', 'DEFAULT=YES'));
+    } else {
+        streamTag = removeAttribute(streamTag, 'AUDIO');
+    }
+
+    lines.push(streamTag, variantName);
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Rewrite a media playlist to local file names
+ * Collects segments, init segments (#EXT-X-MAP) and AES-128 keys (#EXT-X-KEY)
+ * @param prefix - Prefix for local file names, keeps renditions apart
+ */
+export function rewriteMediaPlaylist(
+    text: string,
+    baseUrl: string,
+    prefix: string
+): HlsLocalPlaylist {
+    const resources: HlsResource[] = [];
+    const names = new Map<string, string>();
+    let duration = 0;
+
+    // Each unique URL is stored once (byte-range playlists reuse one file)
+    const localName = (uri: string, kind: 'seg' | 'init' | 'key', fallbackExt: string) => {
+        const url = resolveUrl(uri, baseUrl);
+        let name = names.get(url);
+        if (!name) {
+            const ext = kind === 'key' ? '.key' : getUrlExtension(url) || fallbackExt;
+            name = `${prefix}_${kind}_${String(resources.length).padStart(5, '0')}${ext}`;
+            names.set(url, name);
+            resources.push({ url, name });
+        }
+        return name;
+    };
+
+    const lines = splitLines(text).map(line => {
+        if (!line) return line;
+
+        if (line.startsWith('#EXTINF:')) {
+            duration += parseFloat(line.substring(8)) || 0;
+            return line;
+        }
+
+        if (line.startsWith('#EXT-X-KEY:') || line.startsWith('#EXT-X-MAP:')) {
+            const attributes = parseAttributes(line.substring(line.indexOf(':') + 1));
+            const uri = attributes.URI;
+            if (!uri || attributes.METHOD === 'NONE') return line;
+
+            // Leave DRM key URIs (skd://, data:) untouched
+            if (!/^https?:/i.test(resolveUrl(uri, baseUrl))) return line;
+
+            return line.startsWith('#EXT-X-KEY:')
+                ? replaceUri(line, localName(uri, 'key', '.key'))
+                : replaceUri(line, localName(uri, 'init', '.mp4'));
+        }
+
+        if (line.startsWith('#')) return line;
+
+        return localName(line, 'seg', '.ts');
+    });
+
+    return {
+        playlist: `${lines.join('\n').trim()}\n`,
+        resources,
+        duration,
+    };
+}
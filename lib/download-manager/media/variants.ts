@@ -0,0 +1,51 @@
+/**
+ * Variant Selection
+ * Shared by HLS variants and DASH representations
+ */
+
+import type { VariantPreference } from '../types';
+
+/**
+ * Anything that can be picked by bandwidth or resolution
+ */
+export interface SelectableVariant {
+    bandwidth: number;               // Bits per second
+    height?: number;                 // Vertical resolution
+}
+
+/**
+ * Pick a variant
+ * By height: closest resolution. By bandwidth: highest not above the limit.
+ * Default: highest bandwidth.
+ */
+export function selectVariant<T extends SelectableVariant>(
+    variants: T[],
+    preference: VariantPreference = {}
+): T | undefined {
+    const sorted = [...variants].sort((a, b) => b.bandwidth - a.bandwidth);
+
+    if (preference.height) {
+        const target = preference.height;
+        return sorted.reduce<T | undefined>((best, variant) => {
+            if (!variant.height) return best;
+            if (!best?.height) return variant;
+            return Math.abs(variant.height - target) < Math.abs(best.height - target)
+                ? variant
+                : best;
+        }, undefined) ?? sorted[0];
+    }
+
+    if (preference.bandwidth) {
+        const limit = preference.bandwidth;
+        return sorted.find(variant => variant.bandwidth <= limit) ?? sorted[sorted.length - 1];
+    }
+
+    return sorted[0];
+}
+
+/**
+ * Check if a language tag matches the preferred language ('en' matches 'en-US')
+ */
+export function matchesLanguage(language: string | undefined, preferred: string): boolean {
+    return !!language && language.toLowerCase().startsWith(preferred.toLowerCase());
+}
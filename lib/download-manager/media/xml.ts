@@ -0,0 +1,112 @@
+/**
+ * Minimal XML
+ * Just enough parsing and serialization for DASH manifests
+ * (elements, attributes, text; comments and processing instructions are skipped)
+ */
+
+export interface XmlElement {
+    name: string;                    // Local name (namespace prefix removed)
+    attributes: Record<string, string>; // Attributes by qualified name
+    children: XmlElement[];
+    text: string;                    // Concatenated text content
+}
+
+const TOKEN_PATTERN =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+        switch (entity.toLowerCase()) {
+            case 'amp': return '&';
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+        }
+        return entity[1].toLowerCase() === 'x'
+            ? String.fromCodePoint(parseInt(entity.substring(2), 16))
+            : String.fromCodePoint(parseInt(entity.substring(1), 10));
+    });
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function localName(name: string): string {
+    return name.substring(name.indexOf(':') + 1);
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(text: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const [, cdata, closeName, openName, rawAttributes, selfClosing, rawText] = match;
+        const current = stack[stack.length - 1];
+
+        if (openName) {
+            const element: XmlElement = { name: localName(openName), attributes: {}, children: [], text: '' };
+            for (const attribute of (rawAttributes || '').matchAll(ATTRIBUTE_PATTERN)) {
+                element.attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+            }
+            current.children.push(element);
+            if (!selfClosing) stack.push(element);
+        } else if (closeName) {
+            if (stack.length > 1) stack.pop();
+        } else if (cdata !== undefined) {
+            current.text += cdata;
+        } else if (rawText !== undefined) {
+            current.text += decodeEntities(rawText).trim();
+        }
+    }
+
+    const documentElement = root.children[0];
+    if (!documentElement) {
+        throw new Error('Invalid XML document');
+    }
+    return documentElement;
+}
+
+/**
+ * Find direct children with the given name
+ */
+export function getChildren(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(child => child.name === name);
+}
+
+/**
+ * Find the first direct child with the given name
+ */
+export function getChild(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(child => child.name === name);
+}
+
+/**
+ * Serialize an element tree back to XML
+ */
+export function serializeXml(element: XmlElement, indent: string = ''): string {
+    const attributes = Object.entries(element.attributes)
+        .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+        .join('');
+
+    if (element.children.length === 0 && !element.text) {
+        return `${indent}<${element.name}${attributes}/>`;
+    }
+    if (element.children.length === 0) {
+        return `${indent}<${element.name}${attributes}>${escapeXml(element.text)}</${element.name}>`;
+    }
+
+    const children = element.children
+        .map(child => serializeXml(child, `${indent}  `))
+        .join('\n');
+    return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+}
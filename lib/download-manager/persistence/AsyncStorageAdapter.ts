@@ -0,0 +1,27 @@
+/**
+ * AsyncStorage Persistence
+ * Default adapter, keeps every key in @react-native-async-storage
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { PersistenceAdapter } from '../types';
+
+export class AsyncStorageAdapter implements PersistenceAdapter {
+    public readonly name = 'async-storage';
+
+    public async getItem(key: string): Promise<string | null> {
+        return AsyncStorage.getItem(key);
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        await AsyncStorage.setItem(key, value);
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        await AsyncStorage.removeItem(key);
+    }
+
+    public async getAllKeys(): Promise<string[]> {
+        return [...await AsyncStorage.getAllKeys()];
+    }
+}
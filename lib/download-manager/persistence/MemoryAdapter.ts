@@ -0,0 +1,34 @@
+/**
+ * In-Memory Persistence
+ * Keeps state for the lifetime of the process, for tests and ephemeral sessions
+ */
+
+import type { PersistenceAdapter } from '../types';
+
+export class MemoryAdapter implements PersistenceAdapter {
+    public readonly name = 'memory';
+    private items: Map<string, string>;
+
+    /**
+     * @param initial - Items to start with (e.g. a fixture of persisted state)
+     */
+    constructor(initial: Record<string, string> = {}) {
+        this.items = new Map(Object.entries(initial));
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        return this.items.get(key) ?? null;
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        this.items.set(key, value);
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        this.items.delete(key);
+    }
+
+    public async getAllKeys(): Promise<string[]> {
+        return Array.from(this.items.keys());
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * SQLite Persistence
+ * Keeps every key as a row of a key-value table
+ * The app opens the database (e.g. expo-sqlite's openDatabaseAsync) and passes it in
+ */
+
+import type { PersistenceAdapter } from '../types';
+
+const DEFAULT_TABLE = 'download_manager';
+
+/**
+ * Subset of the expo-sqlite database API the adapter uses
+ */
+export interface SQLiteDatabaseLike {
+    execAsync(source: string): Promise<void>;
+    runAsync(source: string, ...params: string[]): Promise<unknown>;
+    getFirstAsync<T>(source: string, ...params: string[]): Promise<T | null>;
+    getAllAsync<T>(source: string, ...params: string[]): Promise<T[]>;
+}
+
+export class SQLiteAdapter implements PersistenceAdapter {
+    public readonly name = 'sqlite';
+    private database: SQLiteDatabaseLike;
+    private table: string;
+    private ready: Promise<void> | null = null;
+
+    /**
+     * @param database - Open database
+     * @param table - Table to keep the items in, created if missing
+     */
+    constructor(database: SQLiteDatabaseLike, table: string = DEFAULT_TABLE) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+            throw new Error(`Invalid table name: ${table}`);
+        }
+        this.database = database;
+        this.table = table;
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        await this.ensureTable();
+        const row = await this.database.getFirstAsync<{ value: string }>(
+            `SELECT value FROM ${this.table} WHERE key = ?`,
+            key
+        );
+        return row?.value ?? null;
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        await this.ensureTable();
+        await this.database.runAsync(
+            `INSERT OR REPLACE INTO ${this.table} (key, value) VALUES (?, ?)`,
+            key,
+            value
+        );
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        await this.ensureTable();
+        await this.database.runAsync(`DELETE FROM ${this.table} WHERE key = ?`, key);
+    }
+
+    public async getAllKeys(): Promise<string[]> {
+        await this.ensureTable();
+        const rows = await this.database.getAllAsync<{ key: string }>(`SELECT key FROM ${this.table}`);
+        return rows.map(row => row.key);
+    }
+
+    /**
+     * Create the table once (a failed attempt is retried by the next call)
+     */
+    private ensureTable(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.database
+                .execAsync(`CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL)`)
+                .catch((error) => {
+                    this.ready = null;
+                    throw error;
+                });
+        }
+        return this.ready;
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * Persistence Adapters
+ */
+
+export { AsyncStorageAdapter } from './AsyncStorageAdapter';
+export { MemoryAdapter } from './MemoryAdapter';
+export { SQLiteAdapter } from './SQLiteAdapter';
+export type { SQLiteDatabaseLike } from './SQLiteAdapter';
+export { MIGRATIONS, SCHEMA_VERSION } from './migrations';
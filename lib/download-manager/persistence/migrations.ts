@@ -0,0 +1,66 @@
+/**
+ * Persisted Data Migrations
+ * Ordered steps that upgrade persisted state to the current schema version
+ * Each step must be safe to run again: the version is written after it completes
+ * Steps spell out the keys of their own version, later key changes must not alter them
+ */
+
+import type { PersistenceAdapter, PersistenceMigration } from '../types';
+
+const CORRUPT_PREFIX = '@download_manager/corrupt/';
+
+/**
+ * Read a JSON value, setting it aside under CORRUPT_PREFIX if it doesn't parse
+ */
+async function readJson<T>(adapter: PersistenceAdapter, key: string): Promise<T | null> {
+    const data = await adapter.getItem(key);
+    if (!data) return null;
+
+    try {
+        return JSON.parse(data) as T;
+    } catch {
+        console.error(`Persisted data under ${key} is corrupt, setting it aside`);
+        await adapter.setItem(`${CORRUPT_PREFIX}${key}:${Date.now()}`, data);
+        return null;
+    }
+}
+
+export const MIGRATIONS: PersistenceMigration[] = [
+    {
+        // Data written before versioning is already in this format
+        version: 1,
+        description: 'Add schema version',
+        migrate: async () => { },
+    },
+    {
+        version: 2,
+        description: 'Store each task and its metadata under its own key',
+        migrate: async (adapter) => {
+            const tasksKey = '@download_manager/tasks';
+            const backupKey = `${tasksKey}:backup`;
+            const metadataKey = '@download_manager/metadata';
+
+            const tasks = await readJson<{ id?: unknown }[]>(adapter, tasksKey)
+                ?? await readJson<{ id?: unknown }[]>(adapter, backupKey);
+            for (const task of Array.isArray(tasks) ? tasks : []) {
+                if (typeof task?.id === 'string') {
+                    await adapter.setItem(`@download_manager/task/${task.id}`, JSON.stringify(task));
+                }
+            }
+
+            const metadata = await readJson<Record<string, unknown>>(adapter, metadataKey);
+            for (const [taskId, entry] of Object.entries(metadata ?? {})) {
+                await adapter.setItem(`@download_manager/metadata/${taskId}`, JSON.stringify(entry));
+            }
+
+            await adapter.removeItem(tasksKey);
+            await adapter.removeItem(backupKey);
+            await adapter.removeItem(metadataKey);
+        },
+    },
+];
+
+/**
+ * Schema version of the data this code writes
+ */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
@@ -0,0 +1,190 @@
+/**
+ * Fetch Transport
+ * Stream-based transport that reads the response body chunk by chunk
+ * and writes it to disk, resuming with HTTP Range requests
+ */
+
+import { fetch } from 'expo/fetch';
+import { File } from 'expo-file-system';
+import type {
+    DownloadTransport,
+    TransportHeadRequest,
+    TransportHeadResult,
+    TransportRequest,
+    TransportResult,
+    TransportSession,
+} from '../types';
+
+/**
+ * Resume token stored between pause and resume
+ */
+interface FetchResumeData {
+    bytesWritten: number;
+}
+
+/**
+ * Parse a resume token, ignoring tokens from other transports
+ */
+function parseResumeData(resumeData?: string): FetchResumeData | null {
+    if (!resumeData) return null;
+
+    try {
+        const parsed = JSON.parse(resumeData);
+        return typeof parsed?.bytesWritten === 'number' ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Create a resume token for the bytes written so far
+ */
+function createResumeData(bytesWritten: number): string {
+    const resumeData: FetchResumeData = { bytesWritten };
+    return JSON.stringify(resumeData);
+}
+
+/**
+ * Response headers as a record (names are lower-case)
+ */
+function getResponseHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+        headers[key] = value;
+    });
+    return headers;
+}
+
+class FetchSession implements TransportSession {
+    private request: TransportRequest;
+    private controller = new AbortController();
+    private bytesWritten = 0;
+    private stopped = false;
+
+    constructor(request: TransportRequest) {
+        this.request = request;
+    }
+
+    /**
+     * Run the download
+     */
+    public async start(): Promise<TransportResult | undefined> {
+        const { url, filePath, onProgress } = this.request;
+        const file = new File(filePath);
+        const headers: Record<string, string> = { ...this.request.headers };
+
+        // Continue from the previous offset if the partial file is still there
+        const resume = parseResumeData(this.request.resumeData);
+        let offset = resume && file.exists ? Math.min(resume.bytesWritten, file.size) : 0;
+        if (offset > 0) {
+            // Keep the bounds of a requested range (segmented downloads)
+            const range = /^bytes=(\d+)-(\d*)$/.exec(headers.Range ?? '');
+            headers.Range = range
+                ? `bytes=${Number(range[1]) + offset}-${range[2]}`
+                : `bytes=${offset}-`;
+        }
+
+        try {
+            const response = await fetch(url, { headers, signal: this.controller.signal });
+
+            const result: TransportResult = {
+                uri: filePath,
+                status: response.status,
+                headers: getResponseHeaders(response),
+            };
+
+            if (!response.ok || !response.body) {
+                return result;
+            }
+
+            // Server ignored the Range header, start over
+            if (response.status !== 206) {
+                offset = 0;
+            }
+            if (offset === 0) {
+                if (file.exists) file.delete();
+                file.create();
+            }
+
+            const contentLength = Number(response.headers.get('content-length')) || 0;
+            const totalBytes = contentLength > 0 ? offset + contentLength : 0;
+            this.bytesWritten = offset;
+
+            const handle = file.open();
+            const reader = response.body.getReader();
+            try {
+                handle.offset = offset;
+                while (!this.stopped) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+
+                    handle.writeBytes(value);
+                    this.bytesWritten += value.length;
+                    onProgress({ bytesWritten: this.bytesWritten, totalBytes });
+
+                    if (this.request.pace) {
+                        await this.request.pace(value.length);
+                    }
+                }
+            } finally {
+                handle.close();
+            }
+
+            return this.stopped ? undefined : result;
+        } catch (error) {
+            // Abort errors are expected after pause() or cancel()
+            if (this.stopped) return undefined;
+            throw error;
+        }
+    }
+
+    /**
+     * Pause the download and return the written offset
+     */
+    public async pause(): Promise<string | undefined> {
+        this.stopped = true;
+        this.controller.abort();
+
+        return createResumeData(this.bytesWritten);
+    }
+
+    /**
+     * Cancel the download
+     */
+    public async cancel(): Promise<void> {
+        this.stopped = true;
+        this.controller.abort();
+    }
+}
+
+export class FetchTransport implements DownloadTransport {
+    public readonly name = 'fetch';
+    public readonly supportsPacing = true;
+
+    /**
+     * Create a streaming download session
+     */
+    public createSession(request: TransportRequest): TransportSession {
+        return new FetchSession(request);
+    }
+
+    /**
+     * Send a HEAD request
+     */
+    public async head(request: TransportHeadRequest): Promise<TransportHeadResult> {
+        const response = await fetch(request.url, {
+            method: 'HEAD',
+            headers: request.headers,
+            signal: request.signal,
+        });
+        return { status: response.status, headers: getResponseHeaders(response) };
+    }
+
+    /**
+     * Resume from the partial file, e.g. after the app was killed mid-transfer
+     * (the session continues from its actual size if fewer bytes made it to disk)
+     */
+    public createResumeData(bytesWritten: number): string {
+        return createResumeData(bytesWritten);
+    }
+}
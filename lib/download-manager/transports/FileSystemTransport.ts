@@ -0,0 +1,99 @@
+/**
+ * File System Transport
+ * Default transport backed by expo-file-system resumable downloads
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import type {
+    DownloadTransport,
+    TransportHeadRequest,
+    TransportHeadResult,
+    TransportRequest,
+    TransportResult,
+    TransportSession,
+} from '../types';
+
+class FileSystemSession implements TransportSession {
+    private downloadResumable: FileSystem.DownloadResumable;
+
+    constructor(request: TransportRequest, sessionType: FileSystem.FileSystemSessionType) {
+        this.downloadResumable = FileSystem.createDownloadResumable(
+            request.url,
+            request.filePath,
+            { sessionType, headers: request.headers },
+            (data) => request.onProgress({
+                bytesWritten: data.totalBytesWritten,
+                totalBytes: data.totalBytesExpectedToWrite,
+            }),
+            request.resumeData
+        );
+    }
+
+    /**
+     * Run the download
+     */
+    public async start(): Promise<TransportResult | undefined> {
+        const result = await this.downloadResumable.downloadAsync();
+        if (!result) return undefined;
+
+        return {
+            uri: result.uri,
+            status: result.status,
+            headers: result.headers,
+        };
+    }
+
+    /**
+     * Pause the download and return its resume data
+     */
+    public async pause(): Promise<string | undefined> {
+        const pauseResult = await this.downloadResumable.pauseAsync();
+
+        // Handle both Android object with resumeData and other formats
+        if (typeof pauseResult === 'object' && pauseResult !== null && 'resumeData' in pauseResult) {
+            return pauseResult.resumeData;
+        }
+        return JSON.stringify(pauseResult);
+    }
+
+    /**
+     * Cancel the download
+     */
+    public async cancel(): Promise<void> {
+        await this.downloadResumable.cancelAsync();
+    }
+}
+
+export class FileSystemTransport implements DownloadTransport {
+    public readonly name = 'file-system';
+    public readonly supportsPacing = false; // Native downloads can't be slowed down
+    private sessionType: FileSystem.FileSystemSessionType;
+
+    constructor(sessionType: FileSystem.FileSystemSessionType = FileSystem.FileSystemSessionType.BACKGROUND) {
+        this.sessionType = sessionType;
+    }
+
+    /**
+     * Create a resumable download session
+     */
+    public createSession(request: TransportRequest): TransportSession {
+        return new FileSystemSession(request, this.sessionType);
+    }
+
+    /**
+     * Send a HEAD request (expo-file-system has none, the platform fetch shares its network stack)
+     */
+    public async head(request: TransportHeadRequest): Promise<TransportHeadResult> {
+        const response = await fetch(request.url, {
+            method: 'HEAD',
+            headers: request.headers,
+            signal: request.signal,
+        });
+
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+            headers[key.toLowerCase()] = value;
+        });
+        return { status: response.status, headers };
+    }
+}
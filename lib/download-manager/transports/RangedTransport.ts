@@ -0,0 +1,274 @@
+/**
+ * Ranged Transport
+ * Downloads one file over several connections, one byte range each,
+ * through another transport, then joins the ranges into the target file
+ */
+
+import { File } from 'expo-file-system';
+import type {
+    ByteRange,
+    DownloadTransport,
+    TransportHeadRequest,
+    TransportHeadResult,
+    TransportRequest,
+    TransportResult,
+    TransportSession,
+} from '../types';
+
+const COPY_CHUNK_BYTES = 4 * 1024 * 1024;
+const HTTP_PARTIAL_CONTENT = 206;
+
+/** Headers of a range response that describe only that range, not the joined file */
+const RANGE_HEADERS = ['content-length', 'content-range', 'content-md5'];
+
+function getFileSize(path: string): number {
+    const file = new File(path);
+    return file.exists ? file.size : 0;
+}
+
+function getRangeLength(range: ByteRange): number {
+    return range.end - range.start + 1;
+}
+
+/**
+ * Concatenate files into the target and delete them
+ * Yields between blocks so joining a large file doesn't block the JS thread
+ */
+async function joinFiles(paths: string[], target: string): Promise<void> {
+    const output = new File(target);
+    if (output.exists) output.delete();
+    output.create();
+
+    const writer = output.open();
+    try {
+        for (const path of paths) {
+            const input = new File(path);
+            const reader = input.open();
+            try {
+                let remaining = input.size;
+                while (remaining > 0) {
+                    const bytes = reader.readBytes(Math.min(COPY_CHUNK_BYTES, remaining));
+                    if (bytes.length === 0) break;
+                    writer.writeBytes(bytes);
+                    remaining -= bytes.length;
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+            } finally {
+                reader.close();
+            }
+        }
+    } finally {
+        writer.close();
+    }
+
+    for (const path of paths) {
+        const input = new File(path);
+        if (input.exists) input.delete();
+    }
+}
+
+class RangedSession implements TransportSession {
+    private transport: DownloadTransport;
+    private request: TransportRequest;
+    private ranges: ByteRange[];
+    private onStateChange: () => void;
+    private active: Map<ByteRange, TransportSession> = new Map();
+    private stopped = false;
+
+    constructor(
+        transport: DownloadTransport,
+        request: TransportRequest,
+        ranges: ByteRange[],
+        onStateChange: () => void
+    ) {
+        this.transport = transport;
+        this.request = request;
+        this.ranges = ranges;
+        this.onStateChange = onStateChange;
+    }
+
+    /**
+     * Download all unfinished ranges in parallel and join them
+     */
+    public async start(): Promise<TransportResult | undefined> {
+        let failure: TransportResult | undefined;
+        let error: unknown;
+        let headers: Record<string, string> = {};
+
+        await Promise.all(this.ranges.map(async (range) => {
+            if (range.completed) return;
+
+            try {
+                const result = await this.runRange(range);
+                if (!result) return;
+
+                if (result.status === HTTP_PARTIAL_CONTENT) {
+                    headers = Object.fromEntries(Object.entries(result.headers)
+                        .filter(([name]) => !RANGE_HEADERS.includes(name.toLowerCase())));
+                } else {
+                    failure = failure ?? result;
+                    await this.stopAll();
+                }
+            } catch (rangeError) {
+                error = error ?? rangeError;
+                await this.stopAll();
+            }
+        }));
+
+        if (error) throw error;
+        if (failure) {
+            // A 200 means the server sent the whole file instead of the range
+            if (failure.status >= 200 && failure.status < 300) {
+                throw new Error('Server ignored the byte range request');
+            }
+            return failure;
+        }
+        if (this.stopped || this.ranges.some(range => !range.completed)) {
+            return undefined;
+        }
+
+        await joinFiles(this.ranges.flatMap(range => range.chunks), this.request.filePath);
+        return { uri: this.request.filePath, status: 200, headers };
+    }
+
+    /**
+     * Download one range until it is complete, adding a chunk per restart
+     */
+    private async runRange(range: ByteRange): Promise<TransportResult | undefined> {
+        const index = this.ranges.indexOf(range);
+        let headers: Record<string, string> = {};
+
+        while (!range.completed && !this.stopped) {
+            // A paused chunk continues with its token, anything else on disk is kept as is
+            let closedBytes = range.chunks.slice(0, -1).reduce((sum, path) => sum + getFileSize(path), 0);
+            const lastChunk = range.chunks[range.chunks.length - 1];
+            if (lastChunk && !range.resumeData) {
+                const lastSize = getFileSize(lastChunk);
+                if (lastSize > 0) {
+                    closedBytes += lastSize;
+                } else {
+                    range.chunks.pop();
+                }
+            }
+
+            if (closedBytes >= getRangeLength(range)) {
+                range.completed = true;
+                range.downloadedBytes = getRangeLength(range);
+                this.onStateChange();
+                break;
+            }
+
+            let chunkPath = range.resumeData ? lastChunk : undefined;
+            if (!chunkPath) {
+                chunkPath = `${this.request.filePath}.part${index}_${range.chunks.length}`;
+                range.chunks.push(chunkPath);
+                this.onStateChange();
+            }
+
+            const session = this.transport.createSession({
+                url: this.request.url,
+                filePath: chunkPath,
+                headers: {
+                    ...this.request.headers,
+                    Range: `bytes=${range.start + closedBytes}-${range.end}`,
+                },
+                resumeData: range.resumeData,
+                pace: this.request.pace,
+                onProgress: (progress) => {
+                    range.downloadedBytes = closedBytes + progress.bytesWritten;
+                    this.reportProgress();
+                },
+            });
+            this.active.set(range, session);
+
+            const result = await session.start();
+            this.active.delete(range);
+            if (!result || this.stopped) return undefined;
+            if (result.status !== HTTP_PARTIAL_CONTENT) return result;
+            headers = result.headers;
+
+            // Chunk finished, the next pass checks whether the range is complete
+            delete range.resumeData;
+        }
+
+        return range.completed
+            ? { uri: this.request.filePath, status: HTTP_PARTIAL_CONTENT, headers }
+            : undefined;
+    }
+
+    private reportProgress(): void {
+        const totalBytes = this.ranges.reduce((sum, range) => sum + getRangeLength(range), 0);
+        const bytesWritten = this.ranges.reduce((sum, range) => sum + range.downloadedBytes, 0);
+        this.request.onProgress({ bytesWritten, totalBytes });
+    }
+
+    /**
+     * Pause every running range, keeping their resume tokens
+     */
+    private async stopAll(): Promise<void> {
+        this.stopped = true;
+        const running = Array.from(this.active.entries());
+        this.active.clear();
+
+        await Promise.all(running.map(async ([range, session]) => {
+            try {
+                range.resumeData = await session.pause();
+            } catch (error) {
+                console.error('Failed to pause range:', error);
+            }
+        }));
+        this.onStateChange();
+    }
+
+    /**
+     * Pause the download (range state is kept on the ranges themselves)
+     */
+    public async pause(): Promise<string | undefined> {
+        await this.stopAll();
+        return undefined;
+    }
+
+    /**
+     * Cancel all ranges
+     */
+    public async cancel(): Promise<void> {
+        this.stopped = true;
+        const running = Array.from(this.active.values());
+        this.active.clear();
+        await Promise.all(running.map(session => session.cancel()));
+    }
+}
+
+export class RangedTransport implements DownloadTransport {
+    public readonly name = 'ranged';
+    public readonly supportsPacing?: boolean;
+    private transport: DownloadTransport;
+    private ranges: ByteRange[];
+    private onStateChange: () => void;
+
+    /**
+     * @param transport - Transport used for each range
+     * @param ranges - Persisted range state, updated in place
+     * @param onStateChange - Called when range state should be persisted
+     */
+    constructor(transport: DownloadTransport, ranges: ByteRange[], onStateChange: () => void) {
+        this.transport = transport;
+        this.supportsPacing = transport.supportsPacing;
+        this.ranges = ranges;
+        this.onStateChange = onStateChange;
+    }
+
+    /**
+     * Create a session downloading all ranges
+     */
+    public createSession(request: TransportRequest): TransportSession {
+        return new RangedSession(this.transport, request, this.ranges, this.onStateChange);
+    }
+
+    /**
+     * Send a HEAD request through the range transport
+     */
+    public head(request: TransportHeadRequest): Promise<TransportHeadResult> {
+        return this.transport.head(request);
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * Download Transports
+ */
+
+export { FetchTransport } from './FetchTransport';
+export { FileSystemTransport } from './FileSystemTransport';
+export { RangedTransport } from './RangedTransport';
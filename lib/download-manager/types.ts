@@ -8,8 +8,12 @@
  */
 export enum DownloadStatus {
     PENDING = 'pending',       // Task created but not started
+    SCHEDULED = 'scheduled',   // Queued, waiting for its start time or the allowed hours
     DOWNLOADING = 'downloading', // Currently downloading
+    VERIFYING = 'verifying',   // Downloaded, checking the checksum
+    RETRY_PENDING = 'retry-pending', // Failed, waiting for automatic retry
     PAUSED = 'paused',         // Paused by user
+    WAITING_FOR_NETWORK = 'waiting-for-network', // Not allowed on the current connection type
     COMPLETED = 'completed',   // Successfully completed
     FAILED = 'failed',         // Failed due to error
     CANCELLED = 'cancelled',   // Cancelled by user
@@ -24,6 +28,21 @@ export enum NetworkState {
     UNKNOWN = 'unknown',
 }
 
+/**
+ * Type of the active network connection
+ * 'none' when offline, 'unknown' when the platform doesn't report it
+ */
+export type ConnectionType =
+    | 'wifi'
+    | 'cellular'
+    | 'ethernet'
+    | 'bluetooth'
+    | 'wimax'
+    | 'vpn'
+    | 'other'
+    | 'unknown'
+    | 'none';
+
 /**
  * Download task event types
  */
@@ -33,6 +52,12 @@ export enum DownloadEvent {
     COMPLETED = 'completed',         // Download completed
     ERROR = 'error',                 // Error occurred
     CANCELLED = 'cancelled',         // Download cancelled
+    EVICTED = 'evicted',             // Completed download deleted to stay within the quota
+    GROUP_COMPLETED = 'group-completed', // Every task of a group completed
+    GROUP_ERROR = 'group-error',     // A task of a group failed
+    QUEUE_CHANGED = 'queue-changed', // Order of queued tasks changed
+    CONFIG_CHANGED = 'config-changed', // updateConfig() applied new settings
+    STATS_CHANGED = 'stats-changed', // Download statistics updated or reset
 }
 
 /**
@@ -53,6 +78,250 @@ export interface DownloadTask {
     completedAt?: number;            // Timestamp when download completed
     error?: DownloadError;           // Error information if failed
     resumeData?: string;             // Data needed for resume (internal)
+    headers?: Record<string, string>; // Custom HTTP headers sent with every request
+    retryCount?: number;             // Automatic retry attempts made so far
+    nextRetryAt?: number;            // Timestamp of the scheduled retry
+    retryPolicy?: Partial<RetryPolicy>; // Per-task retry policy override
+    format?: MediaFormat;            // Download format (default: progressive)
+    variant?: VariantPreference;     // Preferred variant for streaming formats
+    media?: MediaDownload;           // Segment state for streaming formats
+    segmentCount?: number;           // Parallel byte-range connections for this task
+    ranges?: ByteRange[];            // Byte-range state of a multi-connection download
+    checksum?: ExpectedChecksum;     // Checksum to verify after download
+    hash?: Checksum;                 // Checksum computed from the downloaded file
+    idempotencyKey?: string;         // Client-supplied key the task was created with
+    preflight?: PreflightInfo;       // Server response to the HEAD preflight
+    pinned?: boolean;                // Never evicted by the storage quota
+    lastAccessedAt?: number;         // Timestamp of the last markAccessed() call
+    adopted?: boolean;               // Created by reconciliation from a file that had no task
+    maxBytesPerSecond?: number;      // Bandwidth cap for this task
+    effectiveRateLimit?: number;     // Bytes/s the task is currently held to (own cap or share of the global cap)
+    allowedNetworks?: ConnectionType[]; // Connection types this task may download on (overrides config)
+    waitingReason?: string;          // Why the task is WAITING_FOR_NETWORK
+    startAt?: number;                // Timestamp before which the task doesn't start
+    scheduledFor?: number;           // When a SCHEDULED task becomes eligible to start
+    groupId?: string;                // Group the task was downloaded with
+    priority?: number;               // Queue priority (higher = first)
+    bytesPerSecond?: number;         // Moving-average speed while downloading
+    etaSeconds?: number;             // Estimated seconds left while downloading (unknown total = unset)
+    activeTimeMs?: number;           // Time spent downloading across all runs (updated when a run stops)
+}
+
+/**
+ * Files downloaded together (e.g. the episodes of a series)
+ */
+export interface DownloadGroup {
+    id: string;
+    title: string;
+    taskIds: string[];               // Member tasks in the order they were added
+    createdAt: number;
+    completedAt?: number;            // When the last member completed
+}
+
+/**
+ * Overall state of a group
+ * - active: some members are queued or downloading
+ * - paused: nothing is running and some members are unfinished
+ * - failed: nothing is running and some members failed
+ * - completed: every member completed
+ */
+export type DownloadGroupStatus = 'active' | 'paused' | 'failed' | 'completed';
+
+/**
+ * Aggregate progress of a group
+ */
+export interface DownloadGroupProgress {
+    group: DownloadGroup;
+    tasks: DownloadTask[];
+    status: DownloadGroupStatus;
+    progress: number;                // 0-100 (by bytes once every size is known)
+    totalBytes: number;
+    downloadedBytes: number;
+    completedCount: number;
+    failedCount: number;
+}
+
+/**
+ * Daily time window in local time, "HH:MM" (24h)
+ * May cross midnight, e.g. { start: '22:00', end: '06:00' }
+ */
+export interface TimeWindow {
+    start: string;
+    end: string;
+}
+
+/**
+ * What the server reported about a file before downloading it
+ */
+export interface PreflightInfo {
+    contentLength?: number;          // Content-Length
+    contentType?: string;            // Content-Type
+    fileName?: string;               // File name from Content-Disposition
+    acceptRanges: boolean;           // Accept-Ranges: bytes
+    etag?: string;                   // ETag, to detect changes before resuming
+    checksum?: Checksum;             // Digest or Content-MD5 of the whole file
+    checkedAt: number;               // Timestamp of the request
+}
+
+/**
+ * Handling of a download whose URL or target file belongs to an existing task
+ * - reject: throw DUPLICATE_DOWNLOAD
+ * - return-existing: return the id of the task with the same URL
+ * - rename: save under a unique name such as "name (1).mp4"
+ */
+export type DuplicatePolicy = 'reject' | 'return-existing' | 'rename';
+
+/**
+ * Order in which completed downloads are evicted to stay within the quota
+ * - lru: least recently accessed first
+ * - oldest: earliest completed first
+ * - largest: biggest first
+ */
+export type EvictionPolicy = 'lru' | 'oldest' | 'largest';
+
+/**
+ * Why a download was evicted
+ */
+export interface EvictionInfo {
+    policy: EvictionPolicy;
+    freedBytes: number;              // Size of the deleted file(s)
+    forTaskId: string;               // Download the space was freed for
+}
+
+/**
+ * Handling of files in the download directory that belong to no task
+ * - keep: leave them alone (reported only)
+ * - adopt: add complete files as COMPLETED tasks, delete partial leftovers
+ * - delete: delete them
+ */
+export type OrphanFilePolicy = 'keep' | 'adopt' | 'delete';
+
+/**
+ * What startup reconciliation changed
+ */
+export interface ReconciliationReport {
+    missingFiles: string[];          // Completed tasks whose files are gone (now FAILED)
+    sizeMismatches: string[];        // Completed tasks whose file has the wrong size (now FAILED)
+    resetTasks: string[];            // Unfinished tasks whose partial data was missing
+    adoptedFiles: string[];          // Orphan paths added as tasks
+    deletedFiles: string[];          // Orphan paths deleted
+    keptFiles: string[];             // Orphan paths left in place
+    staleMetadata: string[];         // Task ids removed from the metadata map
+}
+
+/**
+ * Outcome counters shared by the totals, hosts and days of the statistics
+ */
+export interface DownloadCounts {
+    completedCount: number;
+    failedCount: number;             // Failed for good (retries exhausted)
+    cancelledCount: number;
+    totalBytes: number;              // Bytes of completed downloads
+}
+
+/**
+ * Statistics of one host
+ */
+export interface HostStats extends DownloadCounts {
+    host: string;
+    activeTimeMs: number;            // Time spent downloading the completed files
+    averageBytesPerSecond: number;   // totalBytes over activeTimeMs
+    failureRate: number;             // failed / (completed + failed), 0-1
+}
+
+/**
+ * Statistics of one day
+ */
+export interface DailyStats extends DownloadCounts {
+    date: string;                    // Local date, "YYYY-MM-DD"
+}
+
+/**
+ * Aggregated download statistics
+ */
+export interface DownloadStats extends DownloadCounts {
+    since: number;                   // When collection started or was last reset
+    hosts: HostStats[];              // Slowest first
+    days: DailyStats[];              // Oldest first, only days with activity
+}
+
+/**
+ * Persisted form of the download statistics
+ */
+export interface StatsRecord {
+    since: number;
+    totals: DownloadCounts;
+    hosts: Record<string, DownloadCounts & { activeTimeMs: number }>;
+    days: Record<string, DownloadCounts>;
+}
+
+/**
+ * Hash algorithms supported for integrity checks
+ */
+export type ChecksumAlgorithm = 'sha256' | 'sha1' | 'md5';
+
+/**
+ * File checksum
+ */
+export interface Checksum {
+    algorithm: ChecksumAlgorithm;
+    value: string;                   // Hex (or base64) digest
+}
+
+/**
+ * Checksum to verify a download against
+ * 'server' uses the Digest or Content-MD5 response header
+ */
+export type ExpectedChecksum = Checksum | 'server';
+
+/**
+ * One byte range of a multi-connection download
+ * Received bytes live in chunk files; a chunk is added each time the range restarts
+ */
+export interface ByteRange {
+    start: number;                   // First byte (inclusive)
+    end: number;                     // Last byte (inclusive)
+    chunks: string[];                // Chunk files in order
+    downloadedBytes: number;         // Bytes received for this range
+    resumeData?: string;             // Resume token of the last chunk
+    completed: boolean;
+}
+
+/**
+ * How a task is downloaded
+ */
+export type MediaFormat =
+    | 'progressive'                  // Single file
+    | 'hls'                          // HLS (m3u8) playlist with segments
+    | 'dash';                        // MPEG-DASH (mpd) manifest with segments
+
+/**
+ * Variant preference for streaming formats
+ * Without a preference the highest bandwidth is picked
+ */
+export interface VariantPreference {
+    bandwidth?: number;              // Highest bandwidth not above this (bits/s)
+    height?: number;                 // Vertical resolution closest to this
+    language?: string;               // Audio language (e.g. 'en')
+}
+
+/**
+ * A remote file that is part of a streaming download
+ */
+export interface MediaResource {
+    url: string;                     // Remote URL
+    path: string;                    // Local file path
+    completed: boolean;              // Downloaded successfully
+    bytes: number;                   // Size on disk once completed
+}
+
+/**
+ * Persisted state of a streaming (segmented) download
+ */
+export interface MediaDownload {
+    directory: string;               // Local directory holding playlists and segments
+    resources: MediaResource[];      // Segments, keys and init segments in download order
+    estimatedBytes: number;          // Size estimate from the manifest (0 if unknown)
 }
 
 /**
@@ -63,6 +332,8 @@ export interface DownloadError {
     message: string;                 // Human-readable message
     timestamp: number;               // When error occurred
     retryCount?: number;             // Number of retries attempted
+    httpStatus?: number;             // HTTP status of the failed response
+    responseHeaders?: Record<string, string>; // Headers of the failed response
 }
 
 /**
@@ -72,6 +343,38 @@ export interface DownloadOptions {
     fileName?: string;               // Custom file name (optional)
     headers?: Record<string, string>; // Custom HTTP headers
     priority?: number;               // Queue priority (higher = first)
+    retryPolicy?: Partial<RetryPolicy>; // Override the default retry policy
+    format?: MediaFormat;            // Force a format instead of detecting it from the URL
+    variant?: VariantPreference;     // Preferred variant for HLS/DASH
+    segmentCount?: number;           // Parallel byte-range connections (overrides config)
+    checksum?: ExpectedChecksum;     // Verify the file before marking it completed
+    duplicatePolicy?: DuplicatePolicy; // Override the configured duplicate policy
+    idempotencyKey?: string;         // Repeated calls with the same key return the same task
+    preflight?: boolean;             // Override the configured preflight setting
+    pinned?: boolean;                // Protect the file from quota eviction
+    maxBytesPerSecond?: number;      // Bandwidth cap for this download
+    allowedNetworks?: ConnectionType[]; // Only download on these connection types (e.g. ['wifi'])
+    startAt?: number;                // Don't start before this timestamp
+}
+
+/**
+ * Options for downloading a group of files
+ * The download options apply to every file of the group
+ */
+export interface DownloadGroupOptions extends Omit<DownloadOptions, 'fileName' | 'checksum' | 'idempotencyKey'> {
+    title: string;                   // Group title shown to the user
+}
+
+/**
+ * Automatic retry policy
+ * Delay grows exponentially: baseDelayMs * 2^(attempt - 1), capped at maxDelayMs
+ */
+export interface RetryPolicy {
+    maxAttempts: number;             // Max automatic retries (0 disables retry)
+    baseDelayMs: number;             // Delay before the first retry
+    maxDelayMs: number;              // Upper bound for the delay
+    jitter: number;                  // Random spread as a fraction of the delay (0-1)
+    retryableErrors: string[];       // Error codes that are retried
 }
 
 /**
@@ -79,10 +382,132 @@ export interface DownloadOptions {
  */
 export interface DownloadManagerConfig {
     maxConcurrentDownloads: number;  // Max simultaneous downloads
-    timeoutMs: number;               // Request timeout in milliseconds
+    timeoutMs: number;               // Max time without received bytes, ms (0 = off)
     maxRetryAttempts: number;        // Max retry attempts on failure
     progressUpdateThrottleMs: number; // Min time between progress updates
     autoRetryOnNetworkRestore: boolean; // Auto retry when network comes back
+    transport?: DownloadTransport;   // Transport used for transfers (default: expo-file-system)
+    authProvider?: DownloadAuthProvider; // Supplies auth headers before each start/resume
+    persistence?: PersistenceAdapter; // Where state is persisted (default: AsyncStorage), set at creation only
+    retryPolicy?: Partial<RetryPolicy>; // Retry policy (maxAttempts defaults to maxRetryAttempts)
+    segmentCount: number;            // Parallel byte-range connections per file (1 = off)
+    duplicatePolicy: DuplicatePolicy; // What to do when a URL or file is already downloaded
+    preflight: boolean;              // Send a HEAD request before queuing single-file downloads
+    maxFileSizeMB: number;           // Largest single file allowed (0 = no limit)
+    minFreeSpaceMB: number;          // Free space to keep; downloads pause below it
+    maxStorageMB: number;            // Quota for the download directory (0 = no quota)
+    evictionPolicy: EvictionPolicy;  // Which completed downloads to delete when over quota
+    orphanFilePolicy: OrphanFilePolicy; // What startup reconciliation does with files that have no task
+    maxBytesPerSecond: number;       // Bandwidth cap shared by all downloads (0 = unlimited)
+    allowedNetworks: ConnectionType[]; // Connection types downloads may use ([] = any)
+    allowedHours: TimeWindow | null; // Daily window downloads may run in (null = any time)
+    preemptLowerPriority: boolean;   // Pause a lower-priority active task when a queued one is promoted above it
+    autoResumeInterrupted: boolean;  // Re-queue downloads that were running when the app was killed
+}
+
+/**
+ * Settings saved by updateConfig() (functions and objects like the transport are not persisted)
+ */
+export type PersistedConfig = Partial<Omit<DownloadManagerConfig, 'transport' | 'authProvider' | 'persistence'>>;
+
+/**
+ * Returns auth headers for a task
+ * forceRefresh is true after the server rejected the previous credentials (401/403)
+ */
+export type DownloadAuthProvider = (
+    task: DownloadTask,
+    options: { forceRefresh: boolean }
+) => Promise<Record<string, string>>;
+
+/**
+ * Progress snapshot reported by a transport
+ */
+export interface TransportProgress {
+    bytesWritten: number;            // Bytes written to disk so far
+    totalBytes: number;              // Expected total size (0 if unknown)
+}
+
+/**
+ * Final result of a finished transfer
+ */
+export interface TransportResult {
+    uri: string;                     // Local file URI
+    status: number;                  // HTTP status code
+    headers: Record<string, string>; // Response headers
+}
+
+/**
+ * Parameters for starting a transfer
+ */
+export interface TransportRequest {
+    url: string;                     // Source URL
+    filePath: string;                // Destination file path
+    headers?: Record<string, string>; // Request headers
+    resumeData?: string;             // Resume token from a previous pause()
+    onProgress: (progress: TransportProgress) => void;
+    pace?: (bytes: number) => Promise<void>; // Awaited after each received chunk to limit bandwidth (stream-based transports)
+}
+
+/**
+ * Parameters for a HEAD request
+ */
+export interface TransportHeadRequest {
+    url: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;            // Aborts the request (preflight timeout)
+}
+
+/**
+ * Response to a HEAD request
+ */
+export interface TransportHeadResult {
+    status: number;                  // HTTP status code
+    headers: Record<string, string>; // Response headers, lower-case names
+}
+
+/**
+ * A single running transfer created by a transport
+ */
+export interface TransportSession {
+    /** Run the transfer. Resolves undefined if it was paused or cancelled */
+    start(): Promise<TransportResult | undefined>;
+    /** Stop the transfer and return a token for resuming it later */
+    pause(): Promise<string | undefined>;
+    /** Stop the transfer without keeping resume state */
+    cancel(): Promise<void>;
+}
+
+/**
+ * Pluggable transport that performs the actual HTTP transfer
+ */
+export interface DownloadTransport {
+    readonly name: string;
+    readonly supportsPacing?: boolean; // Awaits request.pace, so bandwidth limits are enforced
+    createSession(request: TransportRequest): TransportSession;
+    /** Request only the headers of a URL, over the same network stack as transfers */
+    head(request: TransportHeadRequest): Promise<TransportHeadResult>;
+    /** Resume token for the bytes already written to the partial file (only transports that can continue a transfer without pause()) */
+    createResumeData?(bytesWritten: number): string;
+}
+
+/**
+ * Key-value store the manager persists its state in
+ */
+export interface PersistenceAdapter {
+    readonly name: string;
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+    getAllKeys(): Promise<string[]>;
+}
+
+/**
+ * Step that upgrades persisted data to the next schema version
+ */
+export interface PersistenceMigration {
+    version: number;                 // Schema version the data has after this step
+    description: string;
+    migrate(adapter: PersistenceAdapter): Promise<void>;
 }
 
 /**
@@ -93,6 +518,15 @@ export type DownloadStatusCallback = (task: DownloadTask, oldStatus: DownloadSta
 export type DownloadCompleteCallback = (task: DownloadTask) => void;
 export type DownloadErrorCallback = (task: DownloadTask, error: DownloadError) => void;
 export type DownloadCancelledCallback = (task: DownloadTask) => void;
+export type DownloadEvictedCallback = (task: DownloadTask, info: EvictionInfo) => void;
+export type DownloadGroupCompletedCallback = (group: DownloadGroup) => void;
+export type DownloadGroupErrorCallback = (group: DownloadGroup, task: DownloadTask, error: DownloadError) => void;
+export type DownloadQueueChangedCallback = (queuedTaskIds: string[]) => void;
+export type DownloadStatsChangedCallback = (stats: DownloadStats) => void;
+export type DownloadConfigChangedCallback = (
+    config: DownloadManagerConfig,
+    changes: Partial<DownloadManagerConfig>
+) => void;
 
 /**
  * Event listener map for type checking
@@ -103,6 +537,12 @@ export interface DownloadEventMap {
     [DownloadEvent.COMPLETED]: DownloadCompleteCallback;
     [DownloadEvent.ERROR]: DownloadErrorCallback;
     [DownloadEvent.CANCELLED]: DownloadCancelledCallback;
+    [DownloadEvent.EVICTED]: DownloadEvictedCallback;
+    [DownloadEvent.GROUP_COMPLETED]: DownloadGroupCompletedCallback;
+    [DownloadEvent.GROUP_ERROR]: DownloadGroupErrorCallback;
+    [DownloadEvent.QUEUE_CHANGED]: DownloadQueueChangedCallback;
+    [DownloadEvent.CONFIG_CHANGED]: DownloadConfigChangedCallback;
+    [DownloadEvent.STATS_CHANGED]: DownloadStatsChangedCallback;
 }
 
 /**
@@ -112,6 +552,7 @@ export interface QueueItem {
     taskId: string;
     priority: number;
     addedAt: number;
+    notBefore?: number;              // Not handed out before this timestamp
 }
 
 /**
@@ -3,6 +3,8 @@
  */
 
 import * as FileSystem from 'expo-file-system/legacy';
+import { CONNECTION_TYPE_LABELS, ERROR_CODES, HTTP_STATUS, MIME_EXTENSIONS } from './constants';
+import type { DownloadManagerConfig, MediaFormat, RetryPolicy, TimeWindow } from './types';
 
 /**
  * Generate a unique task ID
@@ -11,11 +13,19 @@ export function generateTaskId(): string {
     return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Generate a unique group ID
+ */
+export function generateGroupId(): string {
+    return `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Sanitize URL to create a safe file name
  * Extracts filename from URL and removes invalid characters
+ * @param defaultExtension - Added when the URL has no extension
  */
-export function sanitizeFileName(url: string, customName?: string): string {
+export function sanitizeFileName(url: string, customName?: string, defaultExtension: string = '.mp4'): string {
     if (customName) {
         // Use custom name but sanitize it
         return customName.replace(/[^a-zA-Z0-9._-]/g, '_');
@@ -35,15 +45,15 @@ export function sanitizeFileName(url: string, customName?: string): string {
         // Sanitize: remove invalid characters
         filename = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
 
-        // Ensure it has an extension, default to .mp4 if none
+        // Ensure it has an extension
         if (!filename.includes('.')) {
-            filename += '.mp4';
+            filename += defaultExtension;
         }
 
         return filename;
     } catch (error) {
         // If URL parsing fails, generate a generic name
-        return `download_${Date.now()}.mp4`;
+        return `download_${Date.now()}${defaultExtension}`;
     }
 }
 
@@ -59,6 +69,302 @@ export function validateUrl(url: string): boolean {
     }
 }
 
+/**
+ * Get the host of a URL, or 'unknown' if it can't be parsed
+ */
+export function getUrlHost(url: string): string {
+    try {
+        return new URL(url).host.toLowerCase() || 'unknown';
+    } catch {
+        return 'unknown';
+    }
+}
+
+/**
+ * Get the local date of a timestamp as "YYYY-MM-DD"
+ */
+export function getLocalDateKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Check configuration values
+ * @returns Description of the first invalid value, or null if all are valid
+ */
+export function getConfigError(config: Partial<DownloadManagerConfig>): string | null {
+    const isCount = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+    const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    const counts = { maxConcurrentDownloads: 1, maxRetryAttempts: 0, segmentCount: 1 } as const;
+    for (const [key, min] of Object.entries(counts)) {
+        const value = config[key as keyof typeof counts];
+        if (value !== undefined && !isCount(value, min)) {
+            return `${key} must be an integer of at least ${min}`;
+        }
+    }
+
+    const amounts = [
+        'timeoutMs',
+        'progressUpdateThrottleMs',
+        'maxFileSizeMB',
+        'minFreeSpaceMB',
+        'maxStorageMB',
+        'maxBytesPerSecond',
+    ] as const;
+    for (const key of amounts) {
+        if (config[key] !== undefined && !isAmount(config[key])) {
+            return `${key} must be a non-negative number`;
+        }
+    }
+
+    const flags = ['autoRetryOnNetworkRestore', 'preflight', 'preemptLowerPriority', 'autoResumeInterrupted'] as const;
+    for (const key of flags) {
+        if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+            return `${key} must be a boolean`;
+        }
+    }
+
+    const choices = {
+        duplicatePolicy: ['reject', 'return-existing', 'rename'],
+        evictionPolicy: ['lru', 'oldest', 'largest'],
+        orphanFilePolicy: ['keep', 'adopt', 'delete'],
+    } as const;
+    for (const [key, values] of Object.entries(choices)) {
+        const value = config[key as keyof typeof choices];
+        if (value !== undefined && !(values as readonly string[]).includes(value)) {
+            return `${key} must be one of: ${values.join(', ')}`;
+        }
+    }
+
+    if (config.allowedNetworks !== undefined) {
+        if (!Array.isArray(config.allowedNetworks)) {
+            return 'allowedNetworks must be an array';
+        }
+        const unknownType = config.allowedNetworks.find(type => !(type in CONNECTION_TYPE_LABELS));
+        if (unknownType !== undefined) {
+            return `allowedNetworks contains an unknown connection type: ${unknownType}`;
+        }
+    }
+
+    if (config.allowedHours) {
+        try {
+            parseTimeOfDay(config.allowedHours.start);
+            parseTimeOfDay(config.allowedHours.end);
+        } catch (error: any) {
+            return `allowedHours: ${error.message}`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Resolve a possibly relative URI against a base URL
+ * Manifests use relative URIs, and URL's base argument isn't reliable in React Native
+ */
+export function resolveUrl(uri: string, baseUrl: string): string {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) return uri;
+
+    const [, origin = '', basePath = '/'] = baseUrl.match(/^([a-z][a-z0-9+.-]*:\/\/[^/?#]*)([^?#]*)/i) || [];
+    if (uri.startsWith('//')) return `${origin.split('//')[0]}${uri}`;
+
+    const path = uri.startsWith('/')
+        ? uri
+        : `${basePath.substring(0, basePath.lastIndexOf('/') + 1)}${uri}`;
+
+    // Normalize ./ and ../ segments, keeping the query string intact
+    const [pathname, query = ''] = path.split(/(?=[?#])/);
+    const segments: string[] = [];
+    for (const segment of pathname.split('/')) {
+        if (segment === '..') {
+            if (segments.length > 1) segments.pop();
+        } else if (segment !== '.') {
+            segments.push(segment);
+        }
+    }
+
+    return `${origin}${segments.join('/')}${query}`;
+}
+
+/**
+ * Get the file extension (with dot) from a URL path, or '' if there is none
+ */
+export function getUrlExtension(url: string): string {
+    const pathname = url.split(/[?#]/)[0];
+    const match = pathname.match(/\.([a-z0-9]{1,5})$/i);
+    return match ? `.${match[1].toLowerCase()}` : '';
+}
+
+/**
+ * Get the file extension (with dot) for a Content-Type, or '' if unknown
+ */
+export function getMimeTypeExtension(contentType?: string): string {
+    if (!contentType) return '';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    return MIME_EXTENSIONS[mimeType] ?? '';
+}
+
+/**
+ * Get the file name from a Content-Disposition header
+ * Prefers the RFC 5987 filename* parameter over filename
+ */
+export function parseContentDisposition(header: string | null | undefined): string | undefined {
+    if (!header) return undefined;
+
+    const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+    if (extended) {
+        try {
+            return decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ''));
+        } catch {
+            // Fall back to the plain parameter
+        }
+    }
+
+    const plain = header.match(/filename\s*=\s*("([^"]*)"|[^;]+)/i);
+    const name = plain ? (plain[2] ?? plain[1]).trim() : '';
+
+    // Never let the server choose a directory
+    const baseName = name.substring(name.search(/[^/\\]*$/));
+    return baseName || undefined;
+}
+
+/**
+ * Detect the download format from the URL, then from the Content-Type
+ */
+export function detectMediaFormat(url: string, contentType?: string): MediaFormat {
+    switch (getUrlExtension(url) || getMimeTypeExtension(contentType)) {
+        case '.m3u8': return 'hls';
+        case '.mpd': return 'dash';
+        default: return 'progressive';
+    }
+}
+
+/**
+ * Check if a format is downloaded as manifest + segments
+ */
+export function isStreamingFormat(format?: MediaFormat): boolean {
+    return format === 'hls' || format === 'dash';
+}
+
+/**
+ * Check if an HTTP status means the credentials were rejected
+ */
+export function isAuthFailure(status: number): boolean {
+    return status === HTTP_STATUS.UNAUTHORIZED || status === HTTP_STATUS.FORBIDDEN;
+}
+
+/**
+ * Map an HTTP status to an error code
+ * @returns null for successful responses
+ */
+export function classifyHttpStatus(status: number): string | null {
+    if (status >= HTTP_STATUS.SUCCESS_MIN && status <= HTTP_STATUS.SUCCESS_MAX) {
+        return null;
+    }
+    if (isAuthFailure(status)) {
+        return ERROR_CODES.UNAUTHORIZED;
+    }
+    if (status === HTTP_STATUS.NOT_FOUND || status === HTTP_STATUS.GONE) {
+        return ERROR_CODES.NOT_FOUND;
+    }
+    if (status >= HTTP_STATUS.CLIENT_ERROR_MIN && status <= HTTP_STATUS.CLIENT_ERROR_MAX) {
+        return ERROR_CODES.CLIENT_ERROR;
+    }
+    if (status >= HTTP_STATUS.SERVER_ERROR_MIN && status <= HTTP_STATUS.SERVER_ERROR_MAX) {
+        return ERROR_CODES.SERVER_ERROR;
+    }
+    return ERROR_CODES.UNKNOWN;
+}
+
+/**
+ * Map an error thrown by a transport to an error code
+ * Native modules only give us a message, so match on known patterns
+ */
+export function classifyError(error: any): string {
+    const message = `${error?.code ?? ''} ${error?.message ?? ''}`.toLowerCase();
+
+    if (/enospc|no space|disk full|not enough space/.test(message)) {
+        return ERROR_CODES.INSUFFICIENT_STORAGE;
+    }
+    if (/timed? ?out|timeout/.test(message)) {
+        return ERROR_CODES.TIMEOUT;
+    }
+    if (/network|connection|internet|offline|socket|host|econn|dns/.test(message)) {
+        return ERROR_CODES.NETWORK_ERROR;
+    }
+    if (/enoent|eacces|erofs|permission|directory|file/.test(message)) {
+        return ERROR_CODES.FILE_SYSTEM_ERROR;
+    }
+    return ERROR_CODES.UNKNOWN;
+}
+
+/**
+ * Calculate delay before a retry attempt
+ * Exponential backoff with random jitter
+ * @param attempt - Retry attempt number (starting at 1)
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+    const exponential = policy.baseDelayMs * Math.pow(2, attempt - 1);
+    const delay = Math.min(exponential, policy.maxDelayMs);
+    const spread = delay * policy.jitter;
+
+    return Math.max(0, Math.round(delay - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Parse "HH:MM" (24h) into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    const hours = Number(match?.[1]);
+    const minutes = Number(match?.[2]);
+    if (!match || hours > 23 || minutes > 59) {
+        throw new Error(`Invalid time of day: ${value}`);
+    }
+    return hours * 60 + minutes;
+}
+
+/**
+ * Get the first moment at or after `from` that lies inside a daily window
+ * A window whose start equals its end covers the whole day
+ */
+export function getNextWindowStart(window: TimeWindow, from: number): number {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === end) return from;
+
+    const date = new Date(from);
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const inside = start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end; // Crosses midnight
+    if (inside) return from;
+
+    date.setHours(Math.floor(start / 60), start % 60, 0, 0);
+    if (date.getTime() <= from) date.setDate(date.getDate() + 1);
+    return date.getTime();
+}
+
+/**
+ * Get when the window that `from` lies in closes
+ * Returns null for a whole-day window
+ */
+export function getWindowEnd(window: TimeWindow, from: number): number | null {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === end) return null;
+
+    const date = new Date(from);
+    date.setHours(Math.floor(end / 60), end % 60, 0, 0);
+    if (date.getTime() <= from) date.setDate(date.getDate() + 1);
+    return date.getTime();
+}
+
 /**
  * Format bytes to human-readable size
  */
@@ -76,21 +382,18 @@ export function formatFileSize(bytes: number): string {
  * Calculate estimated time remaining
  * @param downloadedBytes - Bytes downloaded so far
  * @param totalBytes - Total bytes to download
- * @param startTime - When download started (timestamp)
- * @returns Estimated seconds remaining
+ * @param bytesPerSecond - Current download speed
+ * @returns Estimated seconds remaining, undefined if the total or speed is unknown
  */
 export function calculateETA(
     downloadedBytes: number,
     totalBytes: number,
-    startTime: number
-): number {
-    if (downloadedBytes === 0 || totalBytes === 0) return 0;
-
-    const elapsed = Date.now() - startTime;
-    const speed = downloadedBytes / (elapsed / 1000); // bytes per second
-    const remaining = totalBytes - downloadedBytes;
+    bytesPerSecond: number
+): number | undefined {
+    if (totalBytes <= 0 || bytesPerSecond <= 0) return undefined;
 
-    return Math.ceil(remaining / speed);
+    const remaining = Math.max(0, totalBytes - downloadedBytes);
+    return Math.ceil(remaining / bytesPerSecond);
 }
 
 /**
@@ -108,17 +411,16 @@ export function formatETA(seconds: number): string {
 /**
  * Check if there's enough storage space
  * @param requiredBytes - Bytes needed
- * @returns Promise<boolean>
+ * @param reserveBytes - Free space that must remain afterwards
+ * @returns Promise<boolean> - false if the free space can't be read either
  */
-export async function hasEnoughStorage(requiredBytes: number): Promise<boolean> {
+export async function hasEnoughStorage(requiredBytes: number, reserveBytes: number): Promise<boolean> {
     try {
         const freeDiskStorage = await FileSystem.getFreeDiskStorageAsync();
-        // Require at least 100MB more than needed as buffer
-        const buffer = 100 * 1024 * 1024; // 100 MB
-        return freeDiskStorage > (requiredBytes + buffer);
+        return freeDiskStorage > (requiredBytes + reserveBytes);
     } catch (error) {
         console.error('Failed to check storage:', error);
-        return true; // Assume enough space if check fails
+        return false; // Unknown space: wait for the next StorageMonitor reading instead of filling the disk
     }
 }
 
@@ -152,18 +454,21 @@ export async function deleteFile(filePath: string): Promise<boolean> {
 /**
  * Throttle function calls
  * Returns a throttled version of the function that only executes once per interval
+ * @param intervalMs - Interval, or a getter read on every call so it can change later
  */
 export function throttle<T extends (...args: any[]) => void>(
     func: T,
-    intervalMs: number
+    intervalMs: number | (() => number)
 ): T {
     let lastCall = 0;
     let timeoutId: any = null;
+    const getInterval = typeof intervalMs === 'function' ? intervalMs : () => intervalMs;
 
     return ((...args: any[]) => {
         const now = Date.now();
+        const interval = getInterval();
 
-        if (now - lastCall >= intervalMs) {
+        if (now - lastCall >= interval) {
             lastCall = now;
             func(...args);
         } else {
@@ -172,7 +477,48 @@ export function throttle<T extends (...args: any[]) => void>(
             timeoutId = setTimeout(() => {
                 lastCall = Date.now();
                 func(...args);
-            }, intervalMs - (now - lastCall));
+            }, interval - (now - lastCall));
         }
     }) as T;
 }
+
+/**
+ * Watchdog that fires when it hasn't been fed for timeoutMs
+ * Call feed() on activity and stop() when the watched work ends
+ * @param timeoutMs - Timeout, or a getter read on every check so it can change later
+ */
+export function createWatchdog(
+    timeoutMs: number | (() => number),
+    onTimeout: () => void
+): { feed: () => void; stop: () => void } {
+    let lastFeed = 0;
+    let timeoutId: any = null;
+    const getTimeout = typeof timeoutMs === 'function' ? timeoutMs : () => timeoutMs;
+
+    const check = () => {
+        const timeout = getTimeout();
+        const idle = Date.now() - lastFeed;
+        if (timeout <= 0) {
+            timeoutId = null; // Disabled meanwhile
+        } else if (idle >= timeout) {
+            timeoutId = null;
+            onTimeout();
+        } else {
+            // Fed meanwhile, wait for the rest of the interval
+            timeoutId = setTimeout(check, timeout - idle);
+        }
+    };
+
+    return {
+        feed: () => {
+            const timeout = getTimeout();
+            if (timeout <= 0) return; // Disabled
+            lastFeed = Date.now();
+            if (!timeoutId) timeoutId = setTimeout(check, timeout);
+        },
+        stop: () => {
+            if (timeoutId) clearTimeout(timeoutId);
+            timeoutId = null;
+        },
+    };
+}